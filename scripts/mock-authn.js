@@ -0,0 +1,403 @@
+#!/usr/bin/env node
+/**
+ * Stand-in AuthN (and Control Plane bootstrap) for trying passkey sign-in locally without the
+ * real services. Dependency-free; state lives in memory and is gone on restart.
+ *
+ *   MOCK_AUTHN_PORT=5299 node scripts/mock-authn.js
+ *   REACT_APP_CONTROL_PLANE_BASE_URL=http://localhost:5299 npm start
+ *
+ * Serves:
+ *   GET  /v1/users-accounts/public/bootstrap     bootstrap with auth.passkeys on, AuthN = this server
+ *   GET  /v1/public/captcha-config               captcha off
+ *   POST /v1/authn/login/credentials             any email and password signs in
+ *   GET  /v1/authn/me                            user from the access token
+ *   POST /v1/authn/passkeys/registration/options (signed in)
+ *   POST /v1/authn/passkeys/registration/verify  (signed in)
+ *   POST /v1/authn/passkeys/authentication/options
+ *   POST /v1/authn/passkeys/authentication/verify
+ *
+ * Registration accepts `none` attestation only (what Chrome's virtual authenticator sends by
+ * default); assertions are checked for challenge, origin, RP ID hash, user presence and the
+ * signature (ES256 or RS256). Access tokens are unsigned JWTs: fine for the SPA, which only
+ * decodes them, and never for anything else. See docs/passkeys-local-testing.md.
+ */
+
+const crypto = require('crypto');
+const http = require('http');
+
+const PORT = Number(process.env.MOCK_AUTHN_PORT || 5299);
+const RP_ID = process.env.MOCK_AUTHN_RP_ID || 'localhost';
+const RP_NAME = 'SynaptaGrid (mock)';
+const CEREMONY_TTL_MS = 5 * 60 * 1000;
+const TOKEN_TTL_SECONDS = 3600;
+const BASE_URL = `http://localhost:${PORT}`;
+
+/** ceremony_id -> { type, challenge, email?, userHandle?, expiresAtMs } */
+const ceremonies = new Map();
+/** credential id (base64url) -> { email, userHandle, publicKey, signCount } */
+const credentials = new Map();
+
+// ---- encoding ---------------------------------------------------------------------------
+
+function toBase64Url(buffer) {
+  return Buffer.from(buffer).toString('base64url');
+}
+
+function fromBase64Url(value) {
+  return Buffer.from(String(value || ''), 'base64url');
+}
+
+function sha256(data) {
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+/** Minimal CBOR decoder (unsigned/negative ints, byte and text strings, arrays, maps). */
+function decodeCbor(buffer, offset = 0) {
+  const initial = buffer[offset];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  let length = info;
+  let pos = offset + 1;
+  if (info === 24) {
+    length = buffer.readUInt8(pos);
+    pos += 1;
+  } else if (info === 25) {
+    length = buffer.readUInt16BE(pos);
+    pos += 2;
+  } else if (info === 26) {
+    length = buffer.readUInt32BE(pos);
+    pos += 4;
+  } else if (info === 27) {
+    length = Number(buffer.readBigUInt64BE(pos));
+    pos += 8;
+  } else if (info > 27) {
+    throw new Error(`Unsupported CBOR item 0x${initial.toString(16)}`);
+  }
+  switch (major) {
+    case 0:
+      return [length, pos];
+    case 1:
+      return [-1 - length, pos];
+    case 2:
+      return [buffer.subarray(pos, pos + length), pos + length];
+    case 3:
+      return [buffer.toString('utf8', pos, pos + length), pos + length];
+    case 4: {
+      const items = [];
+      for (let i = 0; i < length; i += 1) {
+        const [item, next] = decodeCbor(buffer, pos);
+        items.push(item);
+        pos = next;
+      }
+      return [items, pos];
+    }
+    case 5: {
+      const map = new Map();
+      for (let i = 0; i < length; i += 1) {
+        const [key, afterKey] = decodeCbor(buffer, pos);
+        const [value, afterValue] = decodeCbor(buffer, afterKey);
+        map.set(key, value);
+        pos = afterValue;
+      }
+      return [map, pos];
+    }
+    default:
+      throw new Error(`Unsupported CBOR major type ${major}`);
+  }
+}
+
+/** COSE_Key (EC2 P-256 or RSA) -> Node KeyObject plus the JWS alg it signs with. */
+function coseToPublicKey(cose) {
+  const kty = cose.get(1);
+  if (kty === 2 && cose.get(-1) === 1) {
+    const jwk = { kty: 'EC', crv: 'P-256', x: toBase64Url(cose.get(-2)), y: toBase64Url(cose.get(-3)) };
+    return { alg: 'ES256', key: crypto.createPublicKey({ key: jwk, format: 'jwk' }) };
+  }
+  if (kty === 3) {
+    const jwk = { kty: 'RSA', n: toBase64Url(cose.get(-1)), e: toBase64Url(cose.get(-2)) };
+    return { alg: 'RS256', key: crypto.createPublicKey({ key: jwk, format: 'jwk' }) };
+  }
+  throw new Error(`Unsupported COSE key type ${kty}`);
+}
+
+/** authenticatorData: rpIdHash(32) flags(1) signCount(4) [aaguid(16) credIdLen(2) credId COSE key]. */
+function parseAuthenticatorData(data) {
+  const parsed = {
+    rpIdHash: data.subarray(0, 32),
+    flags: data[32],
+    signCount: data.readUInt32BE(33),
+  };
+  if (parsed.flags & 0x40) {
+    const idLength = data.readUInt16BE(53);
+    parsed.credentialId = data.subarray(55, 55 + idLength);
+    [parsed.credentialPublicKey] = decodeCbor(data, 55 + idLength);
+  }
+  return parsed;
+}
+
+// ---- tokens and users -------------------------------------------------------------------
+
+function orgFor(email) {
+  const domain = email.split('@')[1] || 'example.com';
+  return { guid: `org-${sha256(domain).toString('hex').slice(0, 12)}`, name: domain, slug: domain.split('.')[0] };
+}
+
+function issueTokens(email) {
+  const org = orgFor(email);
+  const now = Math.floor(Date.now() / 1000);
+  const userGuid = `user-${sha256(email).toString('hex').slice(0, 12)}`;
+  const header = toBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = toBase64Url(
+    JSON.stringify({
+      sub: userGuid,
+      email,
+      name: email.split('@')[0],
+      org_guid: org.guid,
+      org_slug: org.slug,
+      org_name: org.name,
+      role: 'admin',
+      iat: now,
+      exp: now + TOKEN_TTL_SECONDS,
+    })
+  );
+  return {
+    access_token: `${header}.${payload}.`,
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL_SECONDS,
+    user_guid: userGuid,
+    org_guid: org.guid,
+    org_name: org.name,
+    email,
+    role: 'admin',
+  };
+}
+
+/** Email from the request's `Authorization: Bearer|DPoP <jwt>`, or null. */
+function getSignedInEmail(req) {
+  const match = /^(Bearer|DPoP)\s+(\S+)$/i.exec(req.headers.authorization || '');
+  if (!match) return null;
+  try {
+    const claims = JSON.parse(fromBase64Url(match[2].split('.')[1]).toString('utf8'));
+    return claims.exp > Date.now() / 1000 && typeof claims.email === 'string' ? claims.email : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---- WebAuthn ---------------------------------------------------------------------------
+
+function startCeremony(type, email, extra = {}) {
+  const id = crypto.randomUUID();
+  const challenge = toBase64Url(crypto.randomBytes(32));
+  ceremonies.set(id, { ...extra, type, challenge, email, expiresAtMs: Date.now() + CEREMONY_TTL_MS });
+  return { id, challenge };
+}
+
+/** Take (one use) a ceremony of `type`; throws when it's unknown or expired. */
+function takeCeremony(id, type) {
+  const ceremony = ceremonies.get(id);
+  ceremonies.delete(id);
+  if (!ceremony || ceremony.type !== type || ceremony.expiresAtMs < Date.now()) {
+    throw httpError(400, 'Passkey ceremony expired. Start again.');
+  }
+  return ceremony;
+}
+
+function checkClientData(credential, ceremony, expectedType, origin) {
+  const clientDataJSON = fromBase64Url(credential?.response?.clientDataJSON);
+  const clientData = JSON.parse(clientDataJSON.toString('utf8'));
+  if (clientData.type !== expectedType) throw httpError(400, `Unexpected clientData.type ${clientData.type}`);
+  if (clientData.challenge !== ceremony.challenge) throw httpError(400, 'Challenge mismatch');
+  const hostname = new URL(clientData.origin).hostname;
+  // The RP ID may be a parent domain of the site (local.synaptagrid.io for www.local.synaptagrid.io).
+  if ((hostname !== RP_ID && !hostname.endsWith(`.${RP_ID}`)) || (origin && clientData.origin !== origin)) {
+    throw httpError(400, `Origin ${clientData.origin} is not allowed for RP ID ${RP_ID}`);
+  }
+  return clientDataJSON;
+}
+
+function checkAuthenticatorData(authData) {
+  if (!authData.rpIdHash.equals(sha256(RP_ID))) throw httpError(400, 'RP ID hash mismatch');
+  if (!(authData.flags & 0x01)) throw httpError(400, 'User presence flag not set');
+}
+
+function registrationOptions(email) {
+  const existing = [...credentials.entries()].filter(([, c]) => c.email === email);
+  // One WebAuthn user handle per account, so a second passkey lands on the same user.
+  const userHandle = existing[0]?.[1].userHandle || toBase64Url(crypto.randomBytes(16));
+  const { id, challenge } = startCeremony('registration', email, { userHandle });
+  return {
+    ceremony_id: id,
+    public_key: {
+      rp: { id: RP_ID, name: RP_NAME },
+      user: { id: userHandle, name: email, displayName: email },
+      challenge,
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 },
+        { type: 'public-key', alg: -257 },
+      ],
+      timeout: 60000,
+      attestation: 'none',
+      authenticatorSelection: { residentKey: 'required', userVerification: 'preferred' },
+      excludeCredentials: existing.map(([credentialId]) => ({ id: credentialId, type: 'public-key' })),
+    },
+  };
+}
+
+function registrationVerify(email, body, origin) {
+  const ceremony = takeCeremony(body.ceremony_id, 'registration');
+  if (ceremony.email !== email) throw httpError(403, 'Signed in as another user');
+  const credential = body.credential;
+  checkClientData(credential, ceremony, 'webauthn.create', origin);
+  const [attestation] = decodeCbor(fromBase64Url(credential.response.attestationObject));
+  if (attestation.get('fmt') !== 'none') throw httpError(400, 'Only "none" attestation is supported by the mock');
+  const authData = parseAuthenticatorData(attestation.get('authData'));
+  checkAuthenticatorData(authData);
+  if (!authData.credentialId) throw httpError(400, 'No attested credential data');
+  const credentialId = toBase64Url(authData.credentialId);
+  credentials.set(credentialId, {
+    email,
+    userHandle: ceremony.userHandle,
+    publicKey: coseToPublicKey(authData.credentialPublicKey),
+    signCount: authData.signCount,
+  });
+  console.log(`[mock-authn] Registered passkey ${credentialId.slice(0, 12)}... for ${email}`);
+  return { registered: true, credential_id: credentialId };
+}
+
+function authenticationOptions(email) {
+  const { id, challenge } = startCeremony('authentication', email || null);
+  const allow = email ? [...credentials.entries()].filter(([, c]) => c.email === email).map(([credentialId]) => credentialId) : [];
+  return {
+    ceremony_id: id,
+    public_key: {
+      challenge,
+      rpId: RP_ID,
+      timeout: 60000,
+      userVerification: 'preferred',
+      // Empty for discoverable credentials (autofill): the authenticator offers what it has.
+      allowCredentials: allow.map((credentialId) => ({ id: credentialId, type: 'public-key' })),
+    },
+  };
+}
+
+function authenticationVerify(body, origin) {
+  const ceremony = takeCeremony(body.ceremony_id, 'authentication');
+  const credential = body.credential;
+  const stored = credentials.get(credential?.rawId || credential?.id);
+  if (!stored) throw httpError(401, 'This passkey is not registered (the mock forgets passkeys on restart).');
+  const clientDataJSON = checkClientData(credential, ceremony, 'webauthn.get', origin);
+  const authDataBytes = fromBase64Url(credential.response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes);
+  checkAuthenticatorData(authData);
+  const signed = Buffer.concat([authDataBytes, sha256(clientDataJSON)]);
+  const signature = fromBase64Url(credential.response.signature);
+  // WebAuthn ES256 signatures are DER-encoded.
+  if (!crypto.verify('sha256', signed, stored.publicKey.key, signature)) throw httpError(401, 'Passkey signature is invalid');
+  if (authData.signCount !== 0 && authData.signCount <= stored.signCount) throw httpError(401, 'Signature counter went backwards');
+  stored.signCount = authData.signCount;
+  console.log(`[mock-authn] Passkey sign-in for ${stored.email}`);
+  return issueTokens(stored.email);
+}
+
+// ---- HTTP -------------------------------------------------------------------------------
+
+function httpError(status, detail) {
+  return Object.assign(new Error(detail), { status });
+}
+
+function bootstrap() {
+  return {
+    organization: { guid: 'org-mock', slug: 'mock', name: 'Mock tenant', type: 'customer', subdomain: null },
+    services: { authn_url: BASE_URL, authz_url: BASE_URL, idp_url: BASE_URL, region: 'local' },
+    auth: { sso_config_url: '', auth_config_url: '', passkeys: true },
+  };
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(httpError(400, 'Body is not JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, body, origin) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': origin || '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, DPoP',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Expose-Headers': 'DPoP-Nonce',
+    Vary: 'Origin',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function requireUser(req) {
+  const email = getSignedInEmail(req);
+  if (!email) throw httpError(401, 'Sign in first');
+  return email;
+}
+
+async function route(req) {
+  const { pathname } = new URL(req.url, BASE_URL);
+  const origin = req.headers.origin;
+  const key = `${req.method} ${pathname}`;
+  switch (key) {
+    case 'GET /v1/users-accounts/public/bootstrap':
+      return bootstrap();
+    case 'GET /v1/public/captcha-config':
+      return { site_key: '', captcha_enabled: false };
+    case 'POST /v1/authn/login/credentials': {
+      const body = await readJson(req);
+      if (!body.email || !body.password) throw httpError(422, 'Email and password are required');
+      return issueTokens(String(body.email).trim().toLowerCase());
+    }
+    case 'GET /v1/authn/me': {
+      const email = requireUser(req);
+      return { user: { email, name: email.split('@')[0] }, organization: { ...orgFor(email), role: 'admin' } };
+    }
+    case 'POST /v1/authn/passkeys/registration/options':
+      return registrationOptions(requireUser(req));
+    case 'POST /v1/authn/passkeys/registration/verify':
+      return registrationVerify(requireUser(req), await readJson(req), origin);
+    case 'POST /v1/authn/passkeys/authentication/options': {
+      const body = await readJson(req);
+      return authenticationOptions(body.email ? String(body.email).trim().toLowerCase() : null);
+    }
+    case 'POST /v1/authn/passkeys/authentication/verify':
+      return authenticationVerify(await readJson(req), origin);
+    default:
+      throw httpError(404, `No mock for ${key}`);
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  const origin = req.headers.origin;
+  if (req.method === 'OPTIONS') {
+    send(res, 204, undefined, origin);
+    return;
+  }
+  try {
+    send(res, 200, await route(req), origin);
+  } catch (err) {
+    const status = err.status || 500;
+    if (status >= 500) console.error('[mock-authn]', err);
+    send(res, status, { detail: err.message }, origin);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-authn] Listening on ${BASE_URL} (RP ID ${RP_ID})`);
+  console.log(`[mock-authn] Start the site with REACT_APP_CONTROL_PLANE_BASE_URL=${BASE_URL}`);
+});
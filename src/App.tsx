@@ -1,24 +1,48 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { BrowserRouter, Link, Route, Routes, useLocation, useNavigate, useParams } from 'react-router-dom';
 import './App.css';
-import {
-  setAccessTokenCookie,
-  setRefreshTokenCookie,
-  getAccessTokenCookie,
-} from './auth/cookie';
 import {
   exchangeCodeForTokens,
   startAuthRedirect,
-  redirectToGoogle,
-  redirectToGitHub,
-  redirectToTwitter,
-  redirectToMicrosoft,
+  getReturnPathFromState,
+  redirectToSocialProvider,
+  loginWithCredentials,
+  consumeOidcNonce,
+  CredentialsLoginError,
 } from './auth/oidc';
-import type { TokenResponse } from './auth/oidc';
+import { validateIdToken } from './auth/idToken';
+import { AuthError, authErrorFromOAuthParams, authErrorFromResponse, getAuthErrorGuidance, toAuthError } from './auth/authErrors';
+import { getSocialProviders } from './auth/socialProviders';
+import { discoverSso, isSsoAvailable } from './auth/ssoDiscovery';
+import { getSafeRedirectUrl } from './auth/redirectAllowList';
+import { applyNoReferrerPolicy, consumeCallbackFragment } from './auth/callbackFragment';
+import type { ConsumedCallbackFragment } from './auth/callbackFragment';
+import { buildAuthCallbackUrl, getReturnPathFromSearch, sanitizeReturnPath, withReturnTo } from './auth/returnTo';
+import type { SsoDiscoveryResult } from './auth/ssoDiscovery';
+import type { TokenResponse, CredentialsField, CredentialsLoginResponse } from './auth/oidc';
+import type { SessionOrganization } from './auth/session';
+import { getCookiePolicy, getRememberMe, setRememberMe } from './auth/cookiePolicy';
+import { dpopFetch } from './auth/dpop';
+import { consumeMagicLinkToken, getMagicLinkCooldownSeconds, isMagicLinkEnabled, redeemMagicLink, requestMagicLink } from './auth/magicLink';
+import { markPasskeyPrompted, registerPasskey, shouldOfferPasskey } from './auth/passkeys';
 import { useTokenRefresh } from './hooks/useTokenRefresh';
+import { useIdleTimeout } from './hooks/useIdleTimeout';
+import { useSilentAuth } from './hooks/useSilentAuth';
 import { useCaptcha } from './hooks/useCaptcha';
-import { getControlPlaneBaseUrl, getAuthnBaseUrl, SCHEDULE_DEMO_PATH, CONTACT_US_PATH } from './api/usersAccounts';
+import type { UseCaptchaResult } from './hooks/useCaptcha';
+import { usePasskeySignIn } from './hooks/usePasskeySignIn';
+import {
+  getControlPlaneBaseUrl,
+  getAppBaseUrl,
+  getPortalBaseUrl,
+  submitSignup,
+  SignupError,
+  SCHEDULE_DEMO_PATH,
+  CONTACT_US_PATH,
+} from './api/usersAccounts';
+import type { SignupField } from './api/usersAccounts';
 import { BootstrapProvider, useBootstrap } from './contexts/BootstrapContext';
+import { AuthProvider, useAuth } from './contexts/AuthContext';
 
 /** IANA timezones for demo form (common + browser default first). */
 function getTimezoneOptions(): { value: string; label: string }[] {
@@ -80,145 +104,265 @@ type BootstrapResponse = {
   };
 };
 
-const MARKETING_USER_KEY = 'synaptagrid_marketing_user';
-const MARKETING_USER_FETCHED_AT_KEY = 'synaptagrid_marketing_user_fetched_at_ms';
-
-/** Parse tokens from AuthN central callback fragment (hash). AuthN social returns access_token only; OIDC/IdP flow may include id_token. */
-function parseFragmentTokens(hash: string): { access_token: string; refresh_token?: string; expires_in: number; id_token?: string } | null {
-  if (!hash || !hash.startsWith('#')) return null;
-  const params = new URLSearchParams(hash.slice(1));
-  const access_token = params.get('access_token');
-  if (!access_token) return null;
-  const expires_in = parseInt(params.get('expires_in') ?? '3600', 10);
-  const refresh_token = params.get('refresh_token') ?? undefined;
-  const id_token = params.get('id_token') ?? undefined;
-  return { access_token, refresh_token, expires_in, id_token };
-}
-
-function getAppBaseUrl(): string {
-  const env = process.env.REACT_APP_APP_BASE_URL;
-  if (env) return env;
-  return `${window.location.protocol}//${window.location.hostname}:3201`;
-}
-
-function getPortalBaseUrl(): string {
-  return process.env.REACT_APP_PORTAL_BASE_URL || 'https://portal.local.synaptagrid.io:3203';
-}
-
-type CurrentUserResponse = {
-  user: { email: string; display_name?: string; name?: string };
-};
-
-function getStoredUser(): { name: string; email?: string } | null {
-  try {
-    const stored = sessionStorage.getItem(MARKETING_USER_KEY);
-    if (!stored) return null;
-    const parsed = JSON.parse(stored) as { name?: string; email?: string };
-    const name = parsed.name ?? parsed.email?.split('@')[0] ?? 'User';
-    return { name, email: parsed.email };
-  } catch {
-    return null;
+/** AuthN bootstrap for a freshly signed-in user: provisions the user and reports workspace access. */
+async function fetchBootstrapFromIdToken(authnBaseUrl: string, accessToken: string, idToken: string | undefined): Promise<BootstrapResponse> {
+  const response = await dpopFetch(
+    `${authnBaseUrl}/v1/authn/bootstrap/from-id-token`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        id_token: idToken,
+      }),
+    },
+    accessToken
+  );
+  if (!response.ok) {
+    throw await authErrorFromResponse(response, 'bootstrap_failed');
   }
+  return (await response.json()) as BootstrapResponse;
 }
 
-function getStoredUserFetchedAtMs(): number | null {
-  try {
-    const raw = sessionStorage.getItem(MARKETING_USER_FETCHED_AT_KEY);
-    if (!raw) return null;
-    const n = Number(raw);
-    return Number.isFinite(n) ? n : null;
-  } catch {
-    return null;
-  }
+function getMenuItems(menu: HTMLElement | null): HTMLElement[] {
+  return Array.from(menu?.querySelectorAll<HTMLElement>('[role^="menuitem"]:not([aria-disabled="true"])') ?? []);
 }
 
-async function fetchCurrentUser(): Promise<{ name: string; email?: string } | null> {
-  const authnBaseUrl = getAuthnBaseUrl();
-  const mePath = process.env.REACT_APP_AUTHN_ME_PATH || '/v1/authn/me';
-  const token = getAccessTokenCookie();
-  const headers: Record<string, string> = {};
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-  try {
-    const res = await fetch(`${authnBaseUrl}${mePath}`, {
-      method: 'GET',
-      credentials: 'omit',
-      headers,
-    });
-    if (!res.ok) return getStoredUser();
-    const data = (await res.json()) as CurrentUserResponse;
-    const u = data.user;
-    if (!u?.email) return getStoredUser();
-    const name = u.display_name ?? u.name ?? u.email.split('@')[0] ?? 'User';
-    const user = { name, email: u.email };
-    try {
-      sessionStorage.setItem(MARKETING_USER_KEY, JSON.stringify(user));
-      sessionStorage.setItem(MARKETING_USER_FETCHED_AT_KEY, String(Date.now()));
-    } catch {
-      /* ignore */
-    }
-    return user;
-  } catch {
-    return getStoredUser();
-  }
+/** Focus the `index`-th enabled item of a menu (negative counts from the end, wrapping). */
+function focusMenuItem(menu: HTMLElement | null, index: number) {
+  const items = getMenuItems(menu);
+  if (items.length === 0) return;
+  items[((index % items.length) + items.length) % items.length].focus();
 }
 
-type TopNavUser = { name: string; email?: string };
-
-function TopNav({ user: userProp, authChecked: authCheckedProp }: { user?: TopNavUser | null; authChecked?: boolean } = {}) {
-  const initialToken = getAccessTokenCookie();
-  const initialUser = initialToken ? getStoredUser() : null;
-
-  const [userState, setUserState] = useState<TopNavUser | null>(initialUser);
-  const [authCheckedState, setAuthCheckedState] = useState(() => {
-    if (!initialToken) return true;
-    return initialUser !== null;
-  });
-  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+function isSameOrganization(a: SessionOrganization | null | undefined, b: SessionOrganization | null | undefined) {
+  if (!a || !b) return false;
+  return a.guid ? a.guid === b.guid : Boolean(a.slug) && a.slug === b.slug;
+}
 
+/**
+ * Signed-in account dropdown (WAI-ARIA menu button): profile, organization and role, links,
+ * organization switcher and sign-out. TopNav renders the same menu in the desktop bar and in
+ * the mobile menu, where it expands inline.
+ */
+function AccountMenu({ variant }: { variant: 'desktop' | 'mobile' }) {
+  const { user, organization, role, organizations, logout, switchOrganization } = useAuth();
+  const { config: bootstrapConfig } = useBootstrap();
   const location = useLocation();
+  const [open, setOpen] = useState(false);
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const [switchError, setSwitchError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  // Which item gets focus once the menu has rendered (keyboard opens only).
+  const pendingFocusRef = useRef<number | null>(null);
+  const menuId = `account-menu-${variant}`;
+  const portalBaseUrl = getPortalBaseUrl().replace(/\/$/, '');
+  const accountUrl = bootstrapConfig?.services?.account_url?.trim() || null;
 
   useEffect(() => {
-    // Close the mobile menu on navigation to avoid "stuck open" states.
-    setMobileMenuOpen(false);
+    setOpen(false);
   }, [location.pathname]);
 
-  const hasExternalAuthState = typeof userProp !== 'undefined' || typeof authCheckedProp !== 'undefined';
-
   useEffect(() => {
-    if (hasExternalAuthState) return;
+    if (!open) return undefined;
+    if (pendingFocusRef.current !== null) {
+      focusMenuItem(menuRef.current, pendingFocusRef.current);
+      pendingFocusRef.current = null;
+    }
+    const onPointerDown = (event: MouseEvent | TouchEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onPointerDown);
+    document.addEventListener('touchstart', onPointerDown);
+    return () => {
+      document.removeEventListener('mousedown', onPointerDown);
+      document.removeEventListener('touchstart', onPointerDown);
+    };
+  }, [open]);
 
-    const token = getAccessTokenCookie();
-    if (!token) {
-      setUserState(null);
-      setAuthCheckedState(true);
-      return;
+  if (!user) return null;
+
+  const openWithFocus = (index: number) => {
+    pendingFocusRef.current = index;
+    if (open) {
+      focusMenuItem(menuRef.current, index);
+      pendingFocusRef.current = null;
+    } else {
+      setOpen(true);
+    }
+  };
+
+  const close = (restoreFocus: boolean) => {
+    setOpen(false);
+    if (restoreFocus) buttonRef.current?.focus();
+  };
+
+  const onButtonKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      openWithFocus(0);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      openWithFocus(-1);
     }
+  };
+
+  const onMenuKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const current = getMenuItems(menuRef.current).indexOf(document.activeElement as HTMLElement);
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      focusMenuItem(menuRef.current, current + (event.key === 'ArrowDown' ? 1 : -1));
+    } else if (event.key === 'Home' || event.key === 'End') {
+      event.preventDefault();
+      focusMenuItem(menuRef.current, event.key === 'Home' ? 0 : -1);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      close(true);
+    } else if (event.key === 'Tab') {
+      close(false);
+    }
+  };
 
-    const cached = getStoredUser();
-    const fetchedAt = getStoredUserFetchedAtMs();
-    const isFresh = typeof fetchedAt === 'number' && Date.now() - fetchedAt < 5 * 60 * 1000;
-    if (cached && isFresh) {
-      setUserState(cached);
-      setAuthCheckedState(true);
+  const onSwitch = async (target: SessionOrganization) => {
+    if (switchingTo !== null) return;
+    if (isSameOrganization(target, organization)) {
+      close(true);
       return;
     }
+    setSwitchingTo(target.guid ?? target.slug ?? null);
+    setSwitchError(null);
+    try {
+      await switchOrganization(target);
+      close(true);
+    } catch (err) {
+      const error = toAuthError(err);
+      console.warn('[Auth] Organization switch failed', { code: error.code, status: error.status });
+      setSwitchError(error.message);
+    } finally {
+      setSwitchingTo(null);
+    }
+  };
 
-    let cancelled = false;
-    fetchCurrentUser().then((u) => {
-      if (!cancelled) {
-        setUserState(u);
-        setAuthCheckedState(true);
-      }
-    });
-    return () => {
-      cancelled = true;
-    };
-  }, [hasExternalAuthState]);
+  return (
+    <div ref={containerRef} className={`account-menu account-menu-${variant}${open ? ' is-open' : ''}`}>
+      <button
+        ref={buttonRef}
+        type="button"
+        className="account-menu-button"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-controls={menuId}
+        aria-label={`Account menu for ${user.name}`}
+        onClick={(event) => {
+          // detail is 0 for keyboard-activated clicks (Enter/Space): move focus into the menu.
+          if (open) close(false);
+          else if (event.detail === 0) openWithFocus(0);
+          else setOpen(true);
+        }}
+        onKeyDown={onButtonKeyDown}
+      >
+        <span className="top-nav-user-avatar" aria-hidden="true">
+          {user.name.charAt(0).toUpperCase()}
+        </span>
+        <span className="top-nav-user-name">{user.name}</span>
+        <span className="account-menu-caret" aria-hidden="true">▾</span>
+      </button>
+      {open && (
+        <div ref={menuRef} id={menuId} className="account-menu-list" role="menu" aria-label="Account" onKeyDown={onMenuKeyDown}>
+          <div className="account-menu-header">
+            <span className="account-menu-name">{user.name}</span>
+            {user.email && <span className="account-menu-email">{user.email}</span>}
+            {(organization?.name || role) && (
+              <span className="account-menu-org">
+                {organization?.name}
+                {organization?.name && role ? ' · ' : ''}
+                {role && <span className="account-menu-role">{role.replace(/_/g, ' ')}</span>}
+              </span>
+            )}
+          </div>
+          <div className="account-menu-separator" role="separator" />
+          <a className="account-menu-item" role="menuitem" tabIndex={-1} href={portalBaseUrl}>
+            Portal
+          </a>
+          <a className="account-menu-item" role="menuitem" tabIndex={-1} href={getAppBaseUrl()}>
+            Applications
+          </a>
+          {accountUrl && (
+            <a className="account-menu-item" role="menuitem" tabIndex={-1} href={accountUrl}>
+              Account settings
+            </a>
+          )}
+          {organizations.length > 1 && (
+            <>
+              <div className="account-menu-separator" role="separator" />
+              <div role="group" aria-labelledby={`${menuId}-orgs`}>
+                <span id={`${menuId}-orgs`} className="account-menu-group-label">
+                  Switch organization
+                </span>
+                {organizations.map((org) => {
+                  const key = org.guid ?? org.slug ?? org.name ?? '';
+                  const current = isSameOrganization(org, organization);
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      className="account-menu-item account-menu-org-option"
+                      role="menuitemradio"
+                      aria-checked={current}
+                      aria-disabled={switchingTo !== null && switchingTo !== key ? true : undefined}
+                      tabIndex={-1}
+                      onClick={() => void onSwitch(org)}
+                    >
+                      <span>{org.name || org.slug || 'Organization'}</span>
+                      {switchingTo === key ? (
+                        <span className="account-menu-hint">Switching...</span>
+                      ) : (
+                        org.role && <span className="account-menu-hint">{org.role.replace(/_/g, ' ')}</span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+              {switchError && (
+                <p className="account-menu-error" role="alert">
+                  {switchError}
+                </p>
+              )}
+            </>
+          )}
+          <div className="account-menu-separator" role="separator" />
+          <button
+            type="button"
+            className="account-menu-item account-menu-signout"
+            role="menuitem"
+            tabIndex={-1}
+            onClick={() => {
+              setOpen(false);
+              void logout();
+            }}
+          >
+            Sign out
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
 
-  const user = typeof userProp !== 'undefined' ? userProp : userState;
-  const authChecked = typeof authCheckedProp !== 'undefined' ? authCheckedProp : authCheckedState;
+function TopNav() {
+  const { status, user } = useAuth();
+  const authChecked = status !== 'loading';
+  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+
+  const location = useLocation();
+  // Come back to this page after signing in.
+  const loginPath = withReturnTo('/login', sanitizeReturnPath(`${location.pathname}${location.search}`));
+
+  useEffect(() => {
+    // Close the mobile menu on navigation to avoid "stuck open" states.
+    setMobileMenuOpen(false);
+  }, [location.pathname]);
 
   return (
     <nav className="top-nav">
@@ -262,21 +406,10 @@ function TopNav({ user: userProp, authChecked: authCheckedProp }: { user?: TopNa
           {!authChecked ? (
             <span className="top-nav-link" aria-hidden="true">&nbsp;</span>
           ) : user ? (
-            <div className="top-nav-user">
-              <a className="top-nav-link" href={getPortalBaseUrl()}>
-                Portal
-              </a>
-              <a className="top-nav-link" href={getAppBaseUrl()}>
-                Applications
-              </a>
-              <span className="top-nav-user-name" title={user.name}>{user.name}</span>
-              <span className="top-nav-user-avatar" aria-hidden="true">
-                {user.name.charAt(0).toUpperCase()}
-              </span>
-            </div>
+            <AccountMenu variant="desktop" />
           ) : (
             <div className="top-nav-auth-actions">
-              <a className="top-nav-link" href={`${getPortalBaseUrl().replace(/\/$/, '')}/login`}>Login</a>
+              <Link className="top-nav-link" to={loginPath}>Login</Link>
               <Link to="/register" className="top-nav-link top-nav-cta">Evaluate</Link>
             </div>
           )}
@@ -298,21 +431,10 @@ function TopNav({ user: userProp, authChecked: authCheckedProp }: { user?: TopNa
           {!authChecked ? (
             <span className="top-nav-link" aria-hidden="true">&nbsp;</span>
           ) : user ? (
-            <div className="top-nav-user">
-              <a className="top-nav-link" href={getPortalBaseUrl()}>
-                Portal
-              </a>
-              <a className="top-nav-link" href={getAppBaseUrl()}>
-                Applications
-              </a>
-              <span className="top-nav-user-name" title={user.name}>{user.name}</span>
-              <span className="top-nav-user-avatar" aria-hidden="true">
-                {user.name.charAt(0).toUpperCase()}
-              </span>
-            </div>
+            <AccountMenu variant="mobile" />
           ) : (
             <div className="top-nav-auth-actions">
-              <a className="top-nav-link" href={`${getPortalBaseUrl().replace(/\/$/, '')}/login`}>Login</a>
+              <Link className="top-nav-link" to={loginPath}>Login</Link>
               <Link to="/register" className="top-nav-link top-nav-cta">Evaluate</Link>
             </div>
           )}
@@ -1419,26 +1541,11 @@ const HERO_PATH_EDGES: [number, number][] = [
 ];
 
 function LandingPage() {
-  const [user, setUser] = useState<{ name: string; email?: string } | null>(null);
-  const [authChecked, setAuthChecked] = useState(false);
   const heroRef = useRef<HTMLElement | null>(null);
   const heroSvgRef = useRef<SVGSVGElement | null>(null);
   const [heroMouse, setHeroMouse] = useState<{ x: number; y: number } | null>(null);
   const [heroScrollY, setHeroScrollY] = useState(0);
 
-  useEffect(() => {
-    let cancelled = false;
-    fetchCurrentUser().then((u) => {
-      if (!cancelled) {
-        setUser(u);
-        setAuthChecked(true);
-      }
-    });
-    return () => {
-      cancelled = true;
-    };
-  }, []);
-
   useEffect(() => {
     const hero = heroRef.current;
     const svg = heroSvgRef.current;
@@ -1490,7 +1597,7 @@ function LandingPage() {
 
   return (
     <div className="app">
-      <TopNav user={user} authChecked={authChecked} />
+      <TopNav />
       <header className="hero" id="top" ref={heroRef}>
         <div className="hero-bg-svg" aria-hidden="true">
           <svg ref={heroSvgRef} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1200 600" fill="none" preserveAspectRatio="xMidYMid slice">
@@ -1918,6 +2025,24 @@ function formatPreferredTime(dateStr: string, timeStr: string): string {
   return `${day} at ${time}`;
 }
 
+// Half-filled demo request survives a sign-in round trip (same tab, sessionStorage).
+const DEMO_REQUEST_DRAFT_KEY = 'synaptagrid_demo_request_draft';
+
+function loadDemoRequestDraft<T extends object>(defaults: T): T {
+  try {
+    const raw = sessionStorage.getItem(DEMO_REQUEST_DRAFT_KEY);
+    if (!raw) return defaults;
+    const draft = JSON.parse(raw) as Partial<Record<keyof T, unknown>>;
+    const merged = { ...defaults };
+    (Object.keys(defaults) as (keyof T)[]).forEach((key) => {
+      if (typeof draft[key] === 'string') merged[key] = draft[key] as T[keyof T];
+    });
+    return merged;
+  } catch {
+    return defaults;
+  }
+}
+
 function DemoRequestPage() {
   const captcha = useCaptcha();
   const [submitting, setSubmitting] = useState(false);
@@ -1926,17 +2051,27 @@ function DemoRequestPage() {
     const t = new Date();
     return t.toISOString().slice(0, 10);
   }, []);
-  const [formData, setFormData] = useState({
-    name: '',
-    email: '',
-    company: '',
-    preferred_date: '',
-    preferred_time_slot: '09:00',
-    timezone: (typeof Intl !== 'undefined' ? (Intl.DateTimeFormat().resolvedOptions().timeZone ?? '') : '') || 'UTC',
-    role: '',
-    use_case: '',
-    notes: '',
-  });
+  const [formData, setFormData] = useState(() =>
+    loadDemoRequestDraft({
+      name: '',
+      email: '',
+      company: '',
+      preferred_date: '',
+      preferred_time_slot: '09:00',
+      timezone: (typeof Intl !== 'undefined' ? (Intl.DateTimeFormat().resolvedOptions().timeZone ?? '') : '') || 'UTC',
+      role: '',
+      use_case: '',
+      notes: '',
+    })
+  );
+
+  useEffect(() => {
+    try {
+      sessionStorage.setItem(DEMO_REQUEST_DRAFT_KEY, JSON.stringify(formData));
+    } catch {
+      /* ignore */
+    }
+  }, [formData]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -1995,6 +2130,11 @@ function DemoRequestPage() {
       }
       setSubmitMessage({ type: 'success', text: 'Thanks! We\'ll be in touch soon.' });
       setFormData((prev) => ({ ...prev, name: '', email: '', company: '', preferred_date: '', preferred_time_slot: '09:00', notes: '', role: '', use_case: '' }));
+      try {
+        sessionStorage.removeItem(DEMO_REQUEST_DRAFT_KEY);
+      } catch {
+        /* ignore */
+      }
       captcha.reset();
     } catch (err) {
       setSubmitMessage({
@@ -2615,47 +2755,426 @@ function AutomationPage() {
   );
 }
 
-const GoogleIcon = () => (
-  <span className="auth-social-icon" aria-hidden>
-    <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-      <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-      <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-      <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-      <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-    </svg>
-  </span>
-);
-const GitHubIcon = () => (
-  <span className="auth-social-icon" aria-hidden>
-    <svg viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
-      <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
-    </svg>
-  </span>
-);
-const XIcon = () => (
-  <span className="auth-social-icon" aria-hidden>
-    <svg viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
-      <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z"/>
-    </svg>
-  </span>
-);
-const MicrosoftIcon = () => (
-  <span className="auth-social-icon" aria-hidden>
-    <svg viewBox="0 0 23 23" xmlns="http://www.w3.org/2000/svg">
-      <path fill="#f35325" d="M1 1h10v10H1z"/>
-      <path fill="#81bc06" d="M12 1h10v10H12z"/>
-      <path fill="#05a6f0" d="M1 12h10v10H1z"/>
-      <path fill="#ffba08" d="M12 12h10v10H12z"/>
-    </svg>
-  </span>
-);
+/** One button per bootstrap social provider, in registry order; unknown ids get a generic button. */
+function SocialProviderButtons({ providerIds, onSelect }: { providerIds: string[]; onSelect: (providerId: string) => void }) {
+  const providers = getSocialProviders(providerIds);
+  if (providers.length === 0) return null;
+  return (
+    <div className="auth-social-row">
+      {providers.map((provider) => {
+        const Icon = provider.icon;
+        return (
+          <button
+            key={provider.id}
+            type="button"
+            className={`auth-social-btn${provider.variant === 'dark' ? ' auth-social-btn-dark' : ''}`}
+            onClick={() => onSelect(provider.id)}
+          >
+            <Icon /> {provider.buttonText}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/** After sign-in: offer to create a passkey for this device (once per user, see auth/passkeys). */
+function PasskeyOffer({ email }: { email: string }) {
+  const [offered] = useState(() => shouldOfferPasskey(email));
+  const [state, setState] = useState<'idle' | 'pending' | 'created' | 'dismissed'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!offered || state === 'dismissed') return null;
+
+  const handleCreate = async () => {
+    setError(null);
+    setState('pending');
+    try {
+      setState((await registerPasskey(email)) ? 'created' : 'idle');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create a passkey. Try again.');
+      setState('idle');
+    }
+  };
+
+  if (state === 'created') {
+    return <p className="form-note auth-passkey-offer">Passkey created. Next time, sign in with it instead of a password.</p>;
+  }
+  return (
+    <div className="auth-passkey-offer">
+      <p>Sign in faster next time: create a passkey on this device.</p>
+      <button type="button" className="secondary-button" onClick={handleCreate} disabled={state === 'pending'}>
+        {state === 'pending' ? 'Waiting for your device...' : 'Create a passkey'}
+      </button>
+      <button
+        type="button"
+        className="auth-link-button"
+        onClick={() => {
+          markPasskeyPrompted(email);
+          setState('dismissed');
+        }}
+      >
+        Not now
+      </button>
+      {error && (
+        <p className="form-message form-message-error" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** "You're in" card shown once tokens are stored (OIDC callback, social fragment, or credentials sign-in). */
+function AuthReadyCard({
+  userEmail,
+  accessHint,
+}: {
+  userEmail: string | null;
+  accessHint: BootstrapResponse['access_hint'];
+}) {
+  const [portalUrl, setPortalUrl] = useState<string | null>(null);
+
+  // When we have an org (ok or personal_org_created), fetch that org's portal URL for "Go to Portal" link
+  useEffect(() => {
+    const guid = accessHint?.organization?.guid;
+    if (!guid || (accessHint?.action !== 'ok' && accessHint?.action !== 'personal_org_created')) {
+      return;
+    }
+    const cpBase = getControlPlaneBaseUrl();
+    fetch(`${cpBase}/v1/users-accounts/public/organizations/${encodeURIComponent(guid)}/portal`, { credentials: 'omit' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { portal_url?: string } | null) => {
+        if (data?.portal_url) setPortalUrl(getSafeRedirectUrl(data.portal_url, getPortalBaseUrl()));
+      })
+      .catch(() => {});
+  }, [accessHint?.organization?.guid, accessHint?.action]);
+
+  const portalLinkUrl = (portalUrl ?? getPortalBaseUrl()).replace(/\/$/, '');
+
+  return (
+    <div className="status-card">
+      <h2>You're in!</h2>
+      <p>
+        Signed in as <strong>{userEmail}</strong>
+      </p>
+      {accessHint.action === 'contact_admin' ? (
+        <>
+          <p>
+            Your organization is managed by an admin. Contact them for access.
+          </p>
+          {accessHint.organization && (
+            <p className="status-meta">
+              Organization: {accessHint.organization.name}
+            </p>
+          )}
+        </>
+      ) : (
+        <>
+          <p>Your workspace is ready.</p>
+          <a className="primary-button" href={portalLinkUrl}>
+            Go to Portal
+          </a>
+        </>
+      )}
+      {userEmail && <PasskeyOffer email={userEmail} />}
+    </div>
+  );
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type CredentialsFieldErrors = Partial<Record<CredentialsField, string>>;
+
+function validateCredentials(email: string, password: string): CredentialsFieldErrors {
+  const errors: CredentialsFieldErrors = {};
+  if (!email.trim()) {
+    errors.email = 'Enter your work email.';
+  } else if (!EMAIL_PATTERN.test(email.trim())) {
+    errors.email = 'Enter a valid email address.';
+  }
+  if (!password) {
+    errors.password = 'Enter your password.';
+  }
+  return errors;
+}
+
+/**
+ * "Enter your work email" step for enterprise SSO: discovers the org's IdP from the email
+ * domain, then starts the OIDC redirect with the matching hints.
+ */
+function SsoSignIn({
+  required,
+  initialEmail,
+  returnTo,
+  onUsePassword,
+}: {
+  required: boolean;
+  initialEmail: string;
+  returnTo: string | null;
+  onUsePassword?: (email: string) => void;
+}) {
+  const { config: bootstrapConfig } = useBootstrap();
+  const [email, setEmail] = useState(initialEmail);
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [discovery, setDiscovery] = useState<SsoDiscoveryResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDiscover = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setDiscovery(null);
+    const trimmed = email.trim();
+    if (!EMAIL_PATTERN.test(trimmed)) {
+      setEmailError(trimmed ? 'Enter a valid email address.' : 'Enter your work email.');
+      return;
+    }
+    setLoading(true);
+    try {
+      const result = await discoverSso(trimmed);
+      if (result.sso_enabled) {
+        setDiscovery(result);
+      } else if (required) {
+        setError('Your organization requires single sign-on, but no identity provider is set up for this email domain. Contact your administrator.');
+      } else {
+        setError('Single sign-on is not set up for this email domain. Sign in with your password instead.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not look up single sign-on. Try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleContinue = async () => {
+    if (!discovery) return;
+    setError(null);
+    try {
+      await startAuthRedirect('login', { hints: discovery.hints, returnTo });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed. Try again.');
+    }
+  };
+
+  const buttonText = discovery?.sso_button_text || bootstrapConfig?.auth_provider?.sso_button_text || 'Continue with SSO';
+
+  return (
+    <form className="form" onSubmit={handleDiscover} noValidate>
+      {required && <p className="form-note">Your organization requires single sign-on.</p>}
+      <label className="form-field">
+        <span className="form-label">Work email</span>
+        <input
+          type="email"
+          name="sso_email"
+          autoComplete="username"
+          value={email}
+          onChange={(e) => {
+            setEmail(e.target.value);
+            setEmailError(null);
+            setDiscovery(null);
+          }}
+          placeholder="you@company.com"
+          aria-invalid={Boolean(emailError)}
+          aria-describedby={emailError ? 'sso-email-error' : undefined}
+        />
+        {emailError && (
+          <span id="sso-email-error" className="form-field-error" role="alert">
+            {emailError}
+          </span>
+        )}
+      </label>
+      {discovery ? (
+        <>
+          {discovery.organization_name && <p className="form-note">Organization: {discovery.organization_name}</p>}
+          <button className="primary-button form-submit auth-cta-btn" type="button" onClick={handleContinue}>
+            {buttonText}
+          </button>
+        </>
+      ) : (
+        <button className="primary-button form-submit auth-cta-btn" type="submit" disabled={loading}>
+          {loading ? 'Looking up your organization...' : 'Continue'}
+        </button>
+      )}
+      {error && (
+        <p className="form-message form-message-error" role="alert">
+          {error}
+        </p>
+      )}
+      {onUsePassword && (
+        <button type="button" className="auth-link-button" onClick={() => onUsePassword(email.trim())}>
+          Sign in with password instead
+        </button>
+      )}
+    </form>
+  );
+}
+
+/** Workspace a password, passkey or magic-link sign-in reported, in session form. */
+function getSignInOrganization(result: CredentialsLoginResponse): BootstrapResponse['access_hint']['organization'] {
+  return result.org_guid ? { guid: result.org_guid, slug: '', name: result.org_name ?? '' } : undefined;
+}
+
+/**
+ * Passwordless sign-in: emails a one-time link (see auth/magicLink), then shows a "check your
+ * inbox" state with a resend button that waits out AuthN's cooldown.
+ */
+function MagicLinkSignIn({
+  initialEmail,
+  returnTo,
+  captcha,
+  onUsePassword,
+}: {
+  initialEmail: string;
+  returnTo: string | null;
+  captcha: UseCaptchaResult;
+  onUsePassword?: (email: string) => void;
+}) {
+  const [email, setEmail] = useState(initialEmail);
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(0);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sentTo) return;
+    setCooldown(getMagicLinkCooldownSeconds(sentTo));
+    const timer = window.setInterval(() => setCooldown(getMagicLinkCooldownSeconds(sentTo)), 1000);
+    return () => window.clearInterval(timer);
+  }, [sentTo, sending]);
+
+  const sendLink = async (address: string) => {
+    setError(null);
+    let token: string | null = null;
+    if (captcha.captchaEnabled) {
+      token = await captcha.getToken('magic_link');
+      if (!token) {
+        setError('Please complete the captcha before submitting.');
+        return;
+      }
+    }
+    setSending(true);
+    try {
+      await requestMagicLink(address, { captchaToken: token, returnTo });
+      setSentTo(address);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send the sign-in link. Try again.');
+      captcha.reset();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = email.trim();
+    if (!EMAIL_PATTERN.test(trimmed)) {
+      setEmailError(trimmed ? 'Enter a valid email address.' : 'Enter your work email.');
+      return;
+    }
+    await sendLink(trimmed);
+  };
+
+  if (sentTo) {
+    return (
+      <div className="form">
+        <div className="form-success-banner" role="status">
+          <span className="form-success-icon" aria-hidden="true">✓</span>
+          <span>Check your inbox. If {sentTo} has an account, we sent it a sign-in link.</span>
+        </div>
+        <p className="form-note">Open the link on this device to finish signing in. It can only be used once.</p>
+        <button
+          className="secondary-button form-submit auth-cta-btn"
+          type="button"
+          onClick={() => sendLink(sentTo)}
+          disabled={sending || cooldown > 0 || captcha.loading}
+        >
+          {sending ? 'Sending...' : cooldown > 0 ? `Resend link in ${formatCountdown(cooldown)}` : 'Resend link'}
+        </button>
+        {error && (
+          <p className="form-message form-message-error" role="alert">
+            {error}
+          </p>
+        )}
+        <button
+          type="button"
+          className="auth-link-button"
+          onClick={() => {
+            setSentTo(null);
+            setError(null);
+          }}
+        >
+          Use a different email
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="form" onSubmit={handleSubmit} noValidate>
+      <label className="form-field">
+        <span className="form-label">Work email</span>
+        <input
+          type="email"
+          name="magic_link_email"
+          autoComplete="username"
+          value={email}
+          onChange={(e) => {
+            setEmail(e.target.value);
+            setEmailError(null);
+          }}
+          placeholder="you@company.com"
+          aria-invalid={Boolean(emailError)}
+          aria-describedby={emailError ? 'magic-link-email-error' : undefined}
+        />
+        {emailError && (
+          <span id="magic-link-email-error" className="form-field-error" role="alert">
+            {emailError}
+          </span>
+        )}
+      </label>
+      {error && (
+        <p className="form-message form-message-error" role="alert">
+          {error}
+        </p>
+      )}
+      <button className="primary-button form-submit auth-cta-btn" type="submit" disabled={sending || captcha.loading}>
+        {sending ? 'Sending link...' : 'Email me a sign-in link'}
+      </button>
+      {captcha.captchaEnabled && <p className="form-note form-captcha-badge">This form is protected by reCAPTCHA.</p>}
+      {onUsePassword && (
+        <button type="button" className="auth-link-button" onClick={() => onUsePassword(email.trim())}>
+          Sign in with password instead
+        </button>
+      )}
+    </form>
+  );
+}
 
 function LoginPage() {
+  const auth = useAuth();
   const { config: bootstrapConfig } = useBootstrap();
-  const callbackUrl = `${window.location.origin}/auth/callback`;
+  const captcha = useCaptcha();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const returnTo = getReturnPathFromSearch(location.search);
+  const callbackUrl = buildAuthCallbackUrl(returnTo);
   const socialProviders = bootstrapConfig?.auth_provider?.social_providers ?? [];
-  const hasSocial = socialProviders.length > 0;
+  const ssoRequired = Boolean(bootstrapConfig?.auth_provider?.sso_required);
+  const ssoAvailable = isSsoAvailable(bootstrapConfig);
+  const hasSocial = socialProviders.length > 0 && !ssoRequired && bootstrapConfig?.auth_provider?.allow_social_login !== false;
+  const [ssoMode, setSsoMode] = useState(false);
+  const magicLinkEnabled = isMagicLinkEnabled(bootstrapConfig);
+  const [magicLinkMode, setMagicLinkMode] = useState(false);
   const [socialError, setSocialError] = useState<string | null>(null);
+  const [credentials, setCredentials] = useState({ email: '', password: '' });
+  const [fieldErrors, setFieldErrors] = useState<CredentialsFieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [signedIn, setSignedIn] = useState<{ email: string; accessHint: BootstrapResponse['access_hint'] } | null>(null);
+  const offerRememberMe = getCookiePolicy(bootstrapConfig).persistence === 'remember_me';
+  const [rememberMe, setRememberMeChoice] = useState(getRememberMe);
 
   const handleSocialRedirect = async (fn: () => Promise<void>) => {
     setSocialError(null);
@@ -2666,6 +3185,58 @@ function LoginPage() {
     }
   };
 
+  const handleCredentialsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setCredentials((prev) => ({ ...prev, [name]: value }));
+    setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  /** Store the session from a password or passkey sign-in and go on (back to returnTo, or the ready card). */
+  const finishSignIn = async (result: CredentialsLoginResponse, fallbackEmail: string) => {
+    const email = result.email || fallbackEmail;
+    const organization = getSignInOrganization(result);
+    await auth.completeSignIn({ tokens: result, user: { email }, organization });
+    if (returnTo) {
+      navigate(returnTo, { replace: true });
+      return;
+    }
+    setSignedIn({ email, accessHint: { action: 'ok', reason: null, organization } });
+  };
+
+  const passkey = usePasskeySignIn((result) => finishSignIn(result, ''), !signedIn && !ssoRequired && !ssoMode && !magicLinkMode);
+
+  const handleCredentialsSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    const errors = validateCredentials(credentials.email, credentials.password);
+    setFieldErrors(errors);
+    if (errors.email || errors.password) return;
+
+    let token: string | null = null;
+    if (captcha.captchaEnabled) {
+      token = await captcha.getToken('login');
+      if (!token) {
+        setFormError('Please complete the captcha before submitting.');
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await loginWithCredentials(credentials.email.trim(), credentials.password, token);
+      await finishSignIn(result, credentials.email.trim());
+    } catch (err) {
+      if (err instanceof CredentialsLoginError && err.field) {
+        setFieldErrors({ [err.field]: err.message });
+      } else {
+        setFormError(err instanceof Error ? err.message : 'Sign-in failed. Try again.');
+      }
+      captcha.reset();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   return (
     <div className="app">
       <TopNav />
@@ -2684,58 +3255,217 @@ function LoginPage() {
 
       <main>
         <section className="section form-section">
-          <div className="section-header">
-            <h2>Sign in</h2>
-            <p>Use your work credentials or a social account.</p>
-          </div>
-          <div className="form">
-            {socialError && (
-              <p className="form-error" role="alert">
-                {socialError}
-              </p>
-            )}
-            {hasSocial && (
-              <div className="auth-social-row">
-                {socialProviders.includes('google') && (
-                  <button type="button" className="auth-social-btn" onClick={() => handleSocialRedirect(() => redirectToGoogle(callbackUrl))}>
-                    <GoogleIcon /> Sign in with Google
-                  </button>
-                )}
-                {socialProviders.includes('github') && (
-                  <button type="button" className="auth-social-btn" onClick={() => handleSocialRedirect(() => redirectToGitHub(callbackUrl))}>
-                    <GitHubIcon /> Sign in with GitHub
-                  </button>
-                )}
-                {socialProviders.includes('twitter') && (
-                  <button type="button" className="auth-social-btn" onClick={() => handleSocialRedirect(() => redirectToTwitter(callbackUrl))}>
-                    <XIcon /> Sign in with X
-                  </button>
-                )}
-                {socialProviders.includes('microsoft') && (
-                  <button type="button" className="auth-social-btn" onClick={() => handleSocialRedirect(() => redirectToMicrosoft(callbackUrl))}>
-                    <MicrosoftIcon /> Sign in with Microsoft
-                  </button>
+          {signedIn ? (
+            <AuthReadyCard userEmail={signedIn.email} accessHint={signedIn.accessHint} />
+          ) : (
+            <>
+              <div className="section-header">
+                <h2>Sign in</h2>
+                <p>
+                  {ssoRequired || ssoMode
+                    ? 'Enter your work email to continue with your organization\'s identity provider.'
+                    : magicLinkMode
+                      ? 'We\'ll email you a link that signs you in. No password needed.'
+                      : 'Use your work credentials or a social account.'}
+                </p>
+              </div>
+              <div className="auth-options">
+                {(ssoRequired || ssoMode) ? (
+                  <SsoSignIn
+                    required={ssoRequired}
+                    initialEmail={credentials.email}
+                    returnTo={returnTo}
+                    onUsePassword={
+                      ssoRequired
+                        ? undefined
+                        : (email) => {
+                            setCredentials((prev) => ({ ...prev, email }));
+                            setSsoMode(false);
+                          }
+                    }
+                  />
+                ) : magicLinkMode ? (
+                  <MagicLinkSignIn
+                    initialEmail={credentials.email}
+                    returnTo={returnTo}
+                    captcha={captcha}
+                    onUsePassword={(email) => {
+                      setCredentials((prev) => ({ ...prev, email }));
+                      setMagicLinkMode(false);
+                    }}
+                  />
+                ) : (
+                  <>
+                    {socialError && (
+                      <p className="form-error" role="alert">
+                        {socialError}
+                      </p>
+                    )}
+                    {hasSocial && (
+                      <>
+                        <SocialProviderButtons
+                          providerIds={socialProviders}
+                          onSelect={(providerId) => handleSocialRedirect(() => redirectToSocialProvider(providerId, callbackUrl))}
+                        />
+                        <div className="auth-divider">or sign in with email</div>
+                      </>
+                    )}
+                    <form className="form" onSubmit={handleCredentialsSubmit} noValidate>
+                      <label className="form-field">
+                        <span className="form-label">Work email</span>
+                        <input
+                          type="email"
+                          name="email"
+                          autoComplete={passkey.autofill ? 'username webauthn' : 'username'}
+                          value={credentials.email}
+                          onChange={handleCredentialsChange}
+                          placeholder="you@company.com"
+                          aria-invalid={Boolean(fieldErrors.email)}
+                          aria-describedby={fieldErrors.email ? 'login-email-error' : undefined}
+                        />
+                        {fieldErrors.email && (
+                          <span id="login-email-error" className="form-field-error" role="alert">
+                            {fieldErrors.email}
+                          </span>
+                        )}
+                      </label>
+                      <label className="form-field">
+                        <span className="form-label">Password</span>
+                        <input
+                          type="password"
+                          name="password"
+                          autoComplete="current-password"
+                          value={credentials.password}
+                          onChange={handleCredentialsChange}
+                          aria-invalid={Boolean(fieldErrors.password)}
+                          aria-describedby={fieldErrors.password ? 'login-password-error' : undefined}
+                        />
+                        {fieldErrors.password && (
+                          <span id="login-password-error" className="form-field-error" role="alert">
+                            {fieldErrors.password}
+                          </span>
+                        )}
+                      </label>
+                      {offerRememberMe && (
+                        <label className="form-checkbox">
+                          <input
+                            type="checkbox"
+                            name="remember_me"
+                            checked={rememberMe}
+                            onChange={(e) => {
+                              // Saved right away so SSO and social sign-in honour it too.
+                              setRememberMe(e.target.checked);
+                              setRememberMeChoice(e.target.checked);
+                            }}
+                          />
+                          <span>Keep me signed in on this device</span>
+                        </label>
+                      )}
+                      {formError && (
+                        <p className="form-message form-message-error" role="alert">
+                          {formError}
+                        </p>
+                      )}
+                      <button className="primary-button form-submit auth-cta-btn" type="submit" disabled={submitting || captcha.loading}>
+                        {submitting ? 'Signing in...' : 'Sign in'}
+                      </button>
+                      {captcha.captchaEnabled && (
+                        <p className="form-note form-captcha-badge">This form is protected by reCAPTCHA.</p>
+                      )}
+                    </form>
+                    {passkey.enabled && (
+                      <>
+                        <button
+                          type="button"
+                          className="secondary-button auth-cta-btn"
+                          onClick={() => passkey.signIn(credentials.email.trim() || undefined)}
+                          disabled={passkey.pending}
+                        >
+                          {passkey.pending ? 'Waiting for your passkey...' : 'Sign in with a passkey'}
+                        </button>
+                        {passkey.error && (
+                          <p className="form-message form-message-error" role="alert">
+                            {passkey.error}
+                          </p>
+                        )}
+                      </>
+                    )}
+                    {magicLinkEnabled && (
+                      <button type="button" className="auth-link-button" onClick={() => setMagicLinkMode(true)}>
+                        Email me a sign-in link instead
+                      </button>
+                    )}
+                    {ssoAvailable && (
+                      <button type="button" className="auth-link-button" onClick={() => setSsoMode(true)}>
+                        Sign in with single sign-on (SSO)
+                      </button>
+                    )}
+                  </>
                 )}
+                <p className="form-note" style={{ marginTop: '1rem' }}>
+                  Don't have an account? <Link to="/register">Start your free trial</Link>
+                </p>
               </div>
-            )}
-            {!hasSocial && (
-              <p className="form-note">Sign in is available via Google, GitHub, Microsoft, or X when enabled for your organization.</p>
-            )}
-            <p className="form-note" style={{ marginTop: '1rem' }}>
-              Don't have an account? <Link to="/register">Start your free trial</Link>
-            </p>
-          </div>
+            </>
+          )}
         </section>
       </main>
     </div>
   );
 }
 
+const PASSWORD_RULES: { id: string; label: string; test: (value: string) => boolean }[] = [
+  { id: 'length', label: 'At least 12 characters', test: (v) => v.length >= 12 },
+  { id: 'lower', label: 'A lowercase letter', test: (v) => /[a-z]/.test(v) },
+  { id: 'upper', label: 'An uppercase letter', test: (v) => /[A-Z]/.test(v) },
+  { id: 'digit', label: 'A number', test: (v) => /\d/.test(v) },
+  { id: 'symbol', label: 'A symbol', test: (v) => /[^A-Za-z0-9]/.test(v) },
+];
+
+type SignupFieldErrors = Partial<Record<SignupField, string>>;
+
+function validateSignup(form: { name: string; email: string; company: string; password: string; accepted_terms: boolean }): SignupFieldErrors {
+  const errors: SignupFieldErrors = {};
+  if (!form.name.trim()) errors.name = 'Enter your name.';
+  if (!form.email.trim()) {
+    errors.email = 'Enter your work email.';
+  } else if (!EMAIL_PATTERN.test(form.email.trim())) {
+    errors.email = 'Enter a valid email address.';
+  }
+  if (!form.company.trim()) errors.company = 'Enter your company name.';
+  if (!PASSWORD_RULES.every((rule) => rule.test(form.password))) {
+    errors.password = 'Password does not meet the requirements below.';
+  }
+  if (!form.accepted_terms) errors.accepted_terms = 'Accept the Terms of Service to continue.';
+  return errors;
+}
+
 function RegisterPage() {
+  const auth = useAuth();
   const { config: bootstrapConfig } = useBootstrap();
-  const callbackUrl = `${window.location.origin}/auth/callback`;
+  const captcha = useCaptcha();
+  const location = useLocation();
+  const returnTo = getReturnPathFromSearch(location.search);
+  const callbackUrl = buildAuthCallbackUrl(returnTo);
+  // Every "sign in" link here goes to our login page, keeping where the user was headed.
+  const loginPath = withReturnTo('/login', returnTo);
   const socialProviders = bootstrapConfig?.auth_provider?.social_providers ?? [];
   const [socialError, setSocialError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    email: '',
+    company: '',
+    password: '',
+    accepted_terms: false,
+  });
+  const [fieldErrors, setFieldErrors] = useState<SignupFieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<
+    | { state: 'verify_email'; email: string }
+    | { state: 'workspace_ready'; email: string; accessHint: BootstrapResponse['access_hint']; signedIn: boolean }
+    | null
+  >(null);
 
   const handleSocialRedirect = async (fn: () => Promise<void>) => {
     setSocialError(null);
@@ -2746,6 +3476,100 @@ function RegisterPage() {
     }
   };
 
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
+    setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    const errors = validateSignup(formData);
+    setFieldErrors(errors);
+    if (Object.values(errors).some(Boolean)) return;
+
+    let token: string | null = null;
+    if (captcha.captchaEnabled) {
+      token = await captcha.getToken('signup');
+    }
+    const hasToken = typeof token === 'string' && token.trim().length > 0;
+    if (!hasToken) {
+      setFormError(
+        captcha.captchaEnabled
+          ? 'Please complete the captcha before submitting.'
+          : 'Captcha is required but not available. Please refresh the page and try again.'
+      );
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const email = formData.email.trim();
+      const data = await submitSignup({
+        name: formData.name.trim(),
+        email,
+        company: formData.company.trim(),
+        password: formData.password,
+        accepted_terms: formData.accepted_terms,
+        captcha_token: token!.trim(),
+        hostname: window.location.hostname,
+      });
+      if (data.email_verification_required) {
+        setResult({ state: 'verify_email', email: data.email || email });
+      } else {
+        let signedIn = false;
+        if (data.access_token) {
+          try {
+            await auth.completeSignIn({
+              tokens: {
+                access_token: data.access_token,
+                expires_in: data.expires_in ?? 3600,
+                refresh_token: data.refresh_token,
+                refresh_expires_in: data.refresh_expires_in,
+              },
+              user: { email: data.email || email, name: formData.name.trim() },
+              organization: data.organization,
+            });
+            signedIn = true;
+          } catch {
+            /* ignore */
+          }
+        }
+        setResult({
+          state: 'workspace_ready',
+          email: data.email || email,
+          accessHint: { action: 'personal_org_created', reason: null, organization: data.organization },
+          signedIn,
+        });
+      }
+      setFormData((prev) => ({ ...prev, password: '' }));
+      captcha.reset();
+    } catch (err) {
+      if (err instanceof SignupError && Object.keys(err.fieldErrors).length > 0) {
+        setFieldErrors(err.fieldErrors);
+      } else {
+        setFormError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      }
+      captcha.reset();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const fieldErrorProps = (field: SignupField) => ({
+    'aria-invalid': Boolean(fieldErrors[field]),
+    'aria-describedby': fieldErrors[field] ? `signup-${field}-error` : undefined,
+  });
+
+  const renderFieldError = (field: SignupField) =>
+    fieldErrors[field] ? (
+      <span id={`signup-${field}-error`} className="form-field-error" role="alert">
+        {fieldErrors[field]}
+      </span>
+    ) : null;
+
+
   return (
     <div className="app">
       <TopNav />
@@ -2764,81 +3588,235 @@ function RegisterPage() {
 
       <main>
         <section className="section form-section">
-          <div className="section-header">
-            <h2>Create your account</h2>
-            <p>Evaluate the platform in minutes.</p>
-          </div>
-          <div className="form">
-            <div className="trial-benefits">
-              <h4>Your free trial includes:</h4>
-              <ul>
-                <li>Full platform access</li>
-                <li>Dynamic data modeling</li>
-                <li>Workflow builder</li>
-                <li>All integrations</li>
-                <li>Email support</li>
-              </ul>
-            </div>
-            {socialError && (
-              <p className="form-error" role="alert">
-                {socialError}
+          {result?.state === 'verify_email' && (
+            <div className="status-card">
+              <h2>Check your inbox</h2>
+              <p>
+                We sent a verification link to <strong>{result.email}</strong>.
               </p>
-            )}
-            {socialProviders.length > 0 && (
-              <div className="auth-social-row">
-                {socialProviders.includes('google') && (
-                  <button type="button" className="auth-social-btn" onClick={() => handleSocialRedirect(() => redirectToGoogle(callbackUrl))}>
-                    <GoogleIcon /> Sign in with Google
-                  </button>
-                )}
-                {socialProviders.includes('github') && (
-                  <button type="button" className="auth-social-btn" onClick={() => handleSocialRedirect(() => redirectToGitHub(callbackUrl))}>
-                    <GitHubIcon /> Sign in with GitHub
-                  </button>
+              <p>Open it to confirm your email and finish setting up your workspace.</p>
+              <p className="status-meta">Didn't get it? Check your spam folder or contact us.</p>
+              <div className="status-actions">
+                <Link className="secondary-button" to="/contact-us">
+                  Contact us
+                </Link>
+              </div>
+            </div>
+          )}
+          {result?.state === 'workspace_ready' &&
+            (result.signedIn ? (
+              <AuthReadyCard userEmail={result.email} accessHint={result.accessHint} />
+            ) : (
+              <div className="status-card">
+                <h2>Your workspace is ready</h2>
+                <p>
+                  Account created for <strong>{result.email}</strong>.
+                </p>
+                <Link className="primary-button" to={loginPath}>
+                  Sign in
+                </Link>
+              </div>
+            ))}
+          {!result && (
+            <>
+              <div className="section-header">
+                <h2>Create your account</h2>
+                <p>Evaluate the platform in minutes.</p>
+              </div>
+              <div className="form">
+                <div className="trial-benefits">
+                  <h4>Your free trial includes:</h4>
+                  <ul>
+                    <li>Full platform access</li>
+                    <li>Dynamic data modeling</li>
+                    <li>Workflow builder</li>
+                    <li>All integrations</li>
+                    <li>Email support</li>
+                  </ul>
+                </div>
+                {socialError && (
+                  <p className="form-error" role="alert">
+                    {socialError}
+                  </p>
                 )}
-                {socialProviders.includes('twitter') && (
-                  <button type="button" className="auth-social-btn" onClick={() => handleSocialRedirect(() => redirectToTwitter(callbackUrl))}>
-                    <XIcon /> Sign in with X
-                  </button>
+                {socialProviders.length > 0 && (
+                  <>
+                    <SocialProviderButtons
+                      providerIds={socialProviders}
+                      onSelect={(providerId) => handleSocialRedirect(() => redirectToSocialProvider(providerId, callbackUrl))}
+                    />
+                    <div className="auth-divider">or sign up with email</div>
+                  </>
                 )}
-                {socialProviders.includes('microsoft') && (
-                  <button type="button" className="auth-social-btn" onClick={() => handleSocialRedirect(() => redirectToMicrosoft(callbackUrl))}>
-                    <MicrosoftIcon /> Sign in with Microsoft
+                {captcha.loading && <p className="form-note">Loading form...</p>}
+                {captcha.error && <p className="form-note form-error">{captcha.error}</p>}
+                <form className="form" onSubmit={handleSubmit} noValidate>
+                  <label className="form-field">
+                    <span className="form-label">Full name *</span>
+                    <input type="text" name="name" autoComplete="name" value={formData.name} onChange={handleChange} maxLength={200} placeholder="Your name" {...fieldErrorProps('name')} />
+                    {renderFieldError('name')}
+                  </label>
+                  <label className="form-field">
+                    <span className="form-label">Work email *</span>
+                    <input type="email" name="email" autoComplete="email" value={formData.email} onChange={handleChange} placeholder="you@company.com" {...fieldErrorProps('email')} />
+                    {renderFieldError('email')}
+                    {fieldErrors.email && /already exists/i.test(fieldErrors.email) && (
+                      <span className="form-hint">
+                        <Link to={loginPath}>Sign in instead</Link>
+                      </span>
+                    )}
+                  </label>
+                  <label className="form-field">
+                    <span className="form-label">Company *</span>
+                    <input type="text" name="company" autoComplete="organization" value={formData.company} onChange={handleChange} maxLength={200} placeholder="Your company" {...fieldErrorProps('company')} />
+                    {renderFieldError('company')}
+                  </label>
+                  <label className="form-field">
+                    <span className="form-label">Password *</span>
+                    <input type="password" name="password" autoComplete="new-password" value={formData.password} onChange={handleChange} {...fieldErrorProps('password')} />
+                    {renderFieldError('password')}
+                  </label>
+                  <ul className="password-rules" aria-label="Password requirements">
+                    {PASSWORD_RULES.map((rule) => {
+                      const met = rule.test(formData.password);
+                      return (
+                        <li key={rule.id} className={met ? 'is-met' : undefined}>
+                          <span aria-hidden="true">{met ? '✓' : '•'}</span> {rule.label}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  <label className="form-checkbox">
+                    <input type="checkbox" name="accepted_terms" checked={formData.accepted_terms} onChange={handleChange} {...fieldErrorProps('accepted_terms')} />
+                    <span>I agree to the SynaptaGrid Terms of Service and Privacy Policy.</span>
+                  </label>
+                  {renderFieldError('accepted_terms')}
+                  {formError && (
+                    <p className="form-message form-message-error" role="alert">
+                      {formError}
+                    </p>
+                  )}
+                  <button className="primary-button form-submit auth-cta-btn" type="submit" disabled={submitting || captcha.loading}>
+                    {submitting ? 'Creating account...' : 'Create account'}
                   </button>
-                )}
+                  {captcha.captchaEnabled && (
+                    <p className="form-note form-captcha-badge">This form is protected by reCAPTCHA.</p>
+                  )}
+                </form>
+                <p className="form-note" style={{ marginTop: '1rem' }}>
+                  Already have an account? <Link to={loginPath}>Sign in</Link>
+                </p>
               </div>
-            )}
-            {socialProviders.length === 0 && (
-              <p className="form-note">Sign up is available via Google, GitHub, Microsoft, or X when enabled for your organization.</p>
-            )}
-            <p className="form-note" style={{ marginTop: '1rem' }}>
-              Already have an account? <a href={`${getPortalBaseUrl().replace(/\/$/, '')}/login`}>Sign in</a>
-            </p>
-          </div>
+            </>
+          )}
         </section>
       </main>
     </div>
   );
 }
 
+/** Callback failure with per-code guidance and the matching next step (retry, start over, contact). */
+function AuthErrorCard({ error, returnTo }: { error: AuthError; returnTo: string | null }) {
+  const guidance = getAuthErrorGuidance(error.code);
+  const loginPath = withReturnTo('/login', returnTo);
+  return (
+    <div className="status-card status-card-error" role="alert">
+      <h2>{guidance.title}</h2>
+      <p>{error.message}</p>
+      {error.message !== guidance.guidance && <p>{guidance.guidance}</p>}
+      <p className="status-meta">Error code: {error.code}</p>
+      <div className="status-actions">
+        {guidance.action === 'retry' && (
+          <>
+            <Link className="secondary-button" to={loginPath}>
+              Back to login
+            </Link>
+            <button className="primary-button" type="button" onClick={() => startAuthRedirect('login', { returnTo })}>
+              Try again
+            </button>
+          </>
+        )}
+        {guidance.action === 'restart' && (
+          <>
+            <Link className="secondary-button" to="/">
+              Home
+            </Link>
+            <Link className="primary-button" to={loginPath}>
+              Start sign-in again
+            </Link>
+          </>
+        )}
+        {guidance.action === 'contact_admin' && (
+          <>
+            <Link className="secondary-button" to={loginPath}>
+              Back to login
+            </Link>
+            <Link className="primary-button" to="/contact-us">
+              Contact us
+            </Link>
+          </>
+        )}
+        {guidance.action === 'none' && (
+          <Link className="primary-button" to="/">
+            Home
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Bootstrap finished (or failed) without a config, so a sign-in that needs it can't go on. */
+function configMissingError(): AuthError {
+  return new AuthError('config_missing', 'Sign-in configuration could not be loaded. Try again in a moment.');
+}
+
 function AuthCallbackPage() {
   const location = useLocation();
   const navigate = useNavigate();
-  const { config: bootstrapConfig } = useBootstrap();
+  const { config: bootstrapConfig, loading: bootstrapLoading, error: bootstrapError } = useBootstrap();
+  const { completeSignIn, updateUser, reloadUser } = useAuth();
   const [status, setStatus] = useState<'loading' | 'error' | 'ready'>('loading');
   const [message, setMessage] = useState('Completing sign-in...');
   const [accessHint, setAccessHint] = useState<BootstrapResponse['access_hint'] | null>(null);
   const [userEmail, setUserEmail] = useState<string | null>(null);
-  const [portalUrl, setPortalUrl] = useState<string | null>(null);
+  const [authError, setAuthError] = useState<AuthError | null>(null);
   const hasExchangedRef = useRef(false);
+  // Read (and scrubbed from the URL) once per mount; see auth/callbackFragment.
+  const fragmentRef = useRef<ConsumedCallbackFragment | null>(null);
 
   const searchParams = useMemo(() => new URLSearchParams(location.search), [location.search]);
-  const hashTokens = useMemo(() => parseFragmentTokens(location.hash), [location.hash]);
   const appBaseUrl = getAppBaseUrl();
-  const defaultPortalUrl = getPortalBaseUrl();
+  // Social flows carry return_to on our callback URL; the OIDC code flow carries it in `state`.
+  const returnTo = useMemo(
+    () => getReturnPathFromSearch(location.search) ?? getReturnPathFromState(searchParams.get('state')),
+    [location.search, searchParams]
+  );
+
+  useEffect(() => applyNoReferrerPolicy(), []);
+
+  const fail = useCallback((err: unknown) => {
+    const error = toAuthError(err);
+    console.error('[Auth Callback] Sign-in failed', { code: error.code, status: error.status, message: error.message });
+    setAuthError(error);
+    setStatus('error');
+    setMessage(getAuthErrorGuidance(error.code).title);
+  }, []);
 
   useEffect(() => {
+    const showResult = (email: string | null, hint: BootstrapResponse['access_hint']) => {
+      setAccessHint(hint);
+      setUserEmail(email);
+      setStatus('ready');
+      setMessage(hint.action === 'personal_org_created' || hint.action === 'ok' ? 'Success! You can go to the Portal when ready.' : 'Additional action required.');
+    };
+
+    if (!fragmentRef.current) {
+      // Before any network call: tokens must not stay in the address bar or history.
+      fragmentRef.current = consumeCallbackFragment();
+    }
     if (hasExchangedRef.current) return;
+    const configMissing = !bootstrapConfig && (!bootstrapLoading || Boolean(bootstrapError));
 
     // Error from AuthN or IdP (return_url?error=...)
     const error = searchParams.get('error');
@@ -2846,101 +3824,69 @@ function AuthCallbackPage() {
     const actionStatus = searchParams.get('kc_action_status');
     if (error || actionStatus === 'error') {
       hasExchangedRef.current = true;
-      setStatus('error');
-      setMessage(errorDescription ? decodeURIComponent(errorDescription.replace(/\+/g, ' ')) : 'Authentication failed. Please try again.');
+      fail(authErrorFromOAuthParams(error, errorDescription));
+      return;
+    }
+
+    // Back/forward onto a callback entry whose tokens were already used.
+    if (fragmentRef.current.replayed) {
+      hasExchangedRef.current = true;
+      fail(new AuthError('invalid_state', 'This sign-in response was already used. Please sign in again.'));
       return;
     }
 
     // Case A: Fragment tokens (AuthN central callback, including social)
+    const hashTokens = fragmentRef.current.tokens;
     if (hashTokens) {
-      hasExchangedRef.current = true;
-      const authnBaseUrl = bootstrapConfig?.services?.authn_url ?? '';
       const tokens = hashTokens;
-      try {
-        setAccessTokenCookie(tokens.access_token, tokens.expires_in);
-        if (tokens.refresh_token) {
-          setRefreshTokenCookie(tokens.refresh_token, 86400 * 30);
-        }
-      } catch {
-        /* ignore */
+      // id_token must be checked against bootstrap jwks_uri/issuer/client_id first.
+      if (tokens.id_token && configMissing) {
+        hasExchangedRef.current = true;
+        fail(configMissingError());
+        return;
+      }
+      // The token store (cookie, memory or BFF) is chosen by bootstrap.
+      if (bootstrapLoading && !bootstrapError) {
+        setMessage('Loading configuration...');
+        return;
       }
+      hasExchangedRef.current = true;
+      const authnBaseUrl = bootstrapConfig?.services?.authn_url ?? '';
       if (tokens.id_token && authnBaseUrl) {
-        // OIDC flow: bootstrap/from-id-token for access_hint
-        fetch(`${authnBaseUrl}/v1/authn/bootstrap/from-id-token`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${tokens.access_token}`,
-          },
-          body: JSON.stringify({
-            id_token: tokens.id_token,
-          }),
-        })
-          .then(async (response) => {
-            if (!response.ok) throw new Error('Bootstrap failed');
-            const data = (await response.json()) as BootstrapResponse;
-            setAccessHint(data.access_hint);
-            setUserEmail(data.user.email);
-            setStatus('ready');
-            const u = data.user;
-            const displayName = (u as { display_name?: string }).display_name ?? (u as { name?: string }).name ?? u.email?.split('@')[0] ?? 'User';
-            try {
-              sessionStorage.setItem(MARKETING_USER_KEY, JSON.stringify({ name: displayName, email: u.email }));
-            } catch {
-              /* ignore */
-            }
-            setMessage(data.access_hint?.action === 'personal_org_created' || data.access_hint?.action === 'ok' ? 'Success! You can go to the Portal when ready.' : 'Additional action required.');
+        // OIDC flow: validate the id_token, then bootstrap/from-id-token for access_hint
+        const idToken = tokens.id_token;
+        validateIdToken(idToken, { nonce: consumeOidcNonce() })
+          .then(() => completeSignIn({ tokens }))
+          .then(() => fetchBootstrapFromIdToken(authnBaseUrl, tokens.access_token, idToken))
+          .then((data) => {
+            updateUser(data.user, data.access_hint?.organization);
+            showResult(data.user.email, data.access_hint);
           })
-          .catch(() => {
-            setStatus('error');
-            setMessage('Unable to complete sign-in. Please try again.');
-          });
+          .catch(fail);
       } else {
-        // Social flow (no id_token): use /me for user display
-        if (authnBaseUrl) {
-          fetch(`${authnBaseUrl}/v1/authn/me`, {
-            headers: { Authorization: `Bearer ${tokens.access_token}` },
-          })
-            .then(async (res) => {
-              if (!res.ok) throw new Error('Me failed');
-              const data = (await res.json()) as CurrentUserResponse;
-              const email = data.user?.email ?? '';
-              const displayName = data.user?.display_name ?? data.user?.name ?? email?.split('@')[0] ?? 'User';
-              setUserEmail(email);
-              setAccessHint({ action: 'ok', reason: null });
-              setStatus('ready');
-              try {
-                sessionStorage.setItem(MARKETING_USER_KEY, JSON.stringify({ name: displayName, email }));
-              } catch {
-                /* ignore */
-              }
-              setMessage('Success! You can go to the Portal when ready.');
-            })
-            .catch(() => {
-              setUserEmail(null);
-              setAccessHint({ action: 'ok', reason: null });
-              setStatus('ready');
-              setMessage('Success! You can go to the Portal when ready.');
-            });
-        } else {
-          setAccessHint({ action: 'ok', reason: null });
-          setStatus('ready');
-          setMessage('Success! You can go to the Portal when ready.');
-        }
+        // Social flow (no id_token): AuthN /me for user display, or the token claims without it
+        completeSignIn({ tokens })
+          .then(async (signedInUser) => (authnBaseUrl ? (await reloadUser()) ?? signedInUser : signedInUser))
+          .then((user) => showResult(user.email ?? null, { action: 'ok', reason: null }))
+          .catch(fail);
       }
       return;
     }
 
     // Case B: Query code + state (OIDC direct)
     if (!bootstrapConfig) {
+      if (configMissing) {
+        hasExchangedRef.current = true;
+        fail(configMissingError());
+        return;
+      }
       setMessage('Loading configuration...');
       return;
     }
     const code = searchParams.get('code');
     const state = searchParams.get('state');
     if (!code || !state) {
-      setStatus('error');
-      setMessage('Missing authentication data.');
+      fail(new AuthError('invalid_state', 'Missing authentication data.'));
       return;
     }
 
@@ -2950,66 +3896,20 @@ function AuthCallbackPage() {
 
     exchangeCodeForTokens({ code, state })
       .then(async (tokens: TokenResponse) => {
-        const response = await fetch(`${authnBaseUrl}/v1/authn/bootstrap/from-id-token`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${tokens.access_token}`,
-          },
-          body: JSON.stringify({
-            id_token: tokens.id_token,
-          }),
-        });
-        if (!response.ok) {
-          throw new Error('Bootstrap failed');
-        }
-        const data = (await response.json()) as BootstrapResponse;
-        setAccessHint(data.access_hint);
-        setUserEmail(data.user.email);
-        setStatus('ready');
-        const u = data.user;
-        const displayName = (u as { display_name?: string }).display_name ?? (u as { name?: string }).name ?? u.email?.split('@')[0] ?? 'User';
-        try {
-          sessionStorage.setItem(MARKETING_USER_KEY, JSON.stringify({ name: displayName, email: u.email }));
-        } catch {
-          /* ignore */
-        }
-        try {
-          setAccessTokenCookie(tokens.access_token, tokens.expires_in);
-          if (tokens.refresh_token) {
-            setRefreshTokenCookie(tokens.refresh_token, tokens.refresh_expires_in ?? 1800);
-          }
-        } catch {
-          /* ignore */
-        }
-        if (data.access_hint?.action === 'personal_org_created' || data.access_hint?.action === 'ok') {
-          setMessage('Success! You can go to the Portal when ready.');
-        } else {
-          setMessage('Additional action required.');
-        }
+        const data = await fetchBootstrapFromIdToken(authnBaseUrl, tokens.access_token, tokens.id_token);
+        await completeSignIn({ tokens, user: data.user, organization: data.access_hint?.organization });
+        showResult(data.user.email, data.access_hint);
       })
-      .catch(() => {
-        setStatus('error');
-        setMessage('Unable to complete sign-in. Please try again.');
-      });
-  }, [hashTokens, searchParams, bootstrapConfig]);
+      .catch(fail);
+  }, [searchParams, bootstrapConfig, bootstrapLoading, bootstrapError, fail, completeSignIn, updateUser, reloadUser]);
 
-  // When we have an org (ok or personal_org_created), fetch that org's portal URL for "Go to Portal" link
+  // Signed in with a usable workspace: go back to where the user started.
   useEffect(() => {
-    const guid = accessHint?.organization?.guid;
-    if (!guid || (accessHint?.action !== 'ok' && accessHint?.action !== 'personal_org_created')) {
-      return;
+    if (status !== 'ready' || !returnTo) return;
+    if (accessHint?.action === 'ok' || accessHint?.action === 'personal_org_created') {
+      navigate(returnTo, { replace: true });
     }
-    const cpBase = getControlPlaneBaseUrl();
-    fetch(`${cpBase}/v1/users-accounts/public/organizations/${encodeURIComponent(guid)}/portal`, { credentials: 'omit' })
-      .then((res) => (res.ok ? res.json() : null))
-      .then((data: { portal_url?: string } | null) => {
-        if (data?.portal_url) setPortalUrl(data.portal_url);
-      })
-      .catch(() => {});
-  }, [accessHint?.organization?.guid, accessHint?.action]);
-
-  const portalLinkUrl = (portalUrl ?? defaultPortalUrl).replace(/\/$/, '');
+  }, [status, accessHint?.action, returnTo, navigate]);
 
   return (
     <div className="app">
@@ -3025,49 +3925,94 @@ function AuthCallbackPage() {
       <main>
         <section className="section form-section">
           {status === 'loading' && <p>Validating credentials...</p>}
-          {status === 'error' && (
-            <div className="status-card">
-              <p>{message}</p>
-              <div className="status-actions">
-                <Link className="secondary-button" to="/login">
-                  Back to login
-                </Link>
-                <button
-                  className="primary-button"
-                  type="button"
-                  onClick={() => startAuthRedirect('login')}
-                >
-                  Try Again
-                </button>
-              </div>
-            </div>
+          {status === 'error' && authError && (
+            <AuthErrorCard error={authError} returnTo={returnTo} />
           )}
           {status === 'ready' && accessHint && (
-            <div className="status-card">
-              <h2>You're in!</h2>
-              <p>
-                Signed in as <strong>{userEmail}</strong>
-              </p>
-              {accessHint.action === 'contact_admin' ? (
-                <>
-                  <p>
-                    Your organization is managed by an admin. Contact them for access.
-                  </p>
-                  {accessHint.organization && (
-                    <p className="status-meta">
-                      Organization: {accessHint.organization.name}
-                    </p>
-                  )}
-                </>
-              ) : (
-                <>
-                  <p>Your workspace is ready.</p>
-                  <a className="primary-button" href={portalLinkUrl}>
-                    Go to Portal
-                  </a>
-                </>
-              )}
-            </div>
+            <AuthReadyCard userEmail={userEmail} accessHint={accessHint} />
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+/** `/auth/magic`: redeems an emailed sign-in link into a session, like the fragment case of AuthCallbackPage. */
+function MagicLinkPage() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { config: bootstrapConfig, loading: bootstrapLoading } = useBootstrap();
+  const { completeSignIn } = useAuth();
+  const [authError, setAuthError] = useState<AuthError | null>(null);
+  const [signedIn, setSignedIn] = useState<{ email: string; accessHint: BootstrapResponse['access_hint'] } | null>(null);
+  // Read (and scrubbed from the URL) once per mount; undefined until then.
+  const tokenRef = useRef<string | null | undefined>(undefined);
+  const hasRedeemedRef = useRef(false);
+  const returnTo = getReturnPathFromSearch(location.search);
+
+  useEffect(() => applyNoReferrerPolicy(), []);
+
+  useEffect(() => {
+    if (tokenRef.current === undefined) {
+      tokenRef.current = consumeMagicLinkToken();
+    }
+    if (hasRedeemedRef.current) return;
+    const token = tokenRef.current;
+    if (!token) {
+      hasRedeemedRef.current = true;
+      setAuthError(new AuthError('invalid_state', 'This sign-in link is incomplete. Request a new one.'));
+      return;
+    }
+    // AuthN URL and the token store come from bootstrap.
+    if (bootstrapLoading) return;
+    if (!bootstrapConfig) {
+      hasRedeemedRef.current = true;
+      setAuthError(configMissingError());
+      return;
+    }
+    hasRedeemedRef.current = true;
+    redeemMagicLink(token)
+      .then(async (result) => {
+        const organization = getSignInOrganization(result);
+        const user = await completeSignIn({ tokens: result, user: { email: result.email }, organization });
+        if (returnTo) {
+          navigate(returnTo, { replace: true });
+          return;
+        }
+        setSignedIn({ email: user.email ?? result.email, accessHint: { action: 'ok', reason: null, organization } });
+      })
+      .catch((err) => {
+        const error = toAuthError(err);
+        console.error('[Auth] Magic link sign-in failed', { code: error.code, status: error.status });
+        setAuthError(error);
+      });
+  }, [bootstrapConfig, bootstrapLoading, completeSignIn, navigate, returnTo]);
+
+  const message = authError
+    ? getAuthErrorGuidance(authError.code).title
+    : signedIn
+      ? 'Success! You can go to the Portal when ready.'
+      : 'Checking your sign-in link...';
+
+  return (
+    <div className="app">
+      <TopNav />
+      <header className="hero hero-compact">
+        <div className="hero-content">
+          <p className="eyebrow">Authentication</p>
+          <h1>Signing you in</h1>
+          <p className="hero-subtitle">{message}</p>
+        </div>
+      </header>
+
+      <main>
+        <section className="section form-section">
+          {authError ? (
+            <AuthErrorCard error={authError} returnTo={returnTo} />
+          ) : signedIn ? (
+            <AuthReadyCard userEmail={signedIn.email} accessHint={signedIn.accessHint} />
+          ) : (
+            <p>Validating your link...</p>
           )}
         </section>
       </main>
@@ -3181,6 +4126,11 @@ function CaseStudyDetailPage() {
   );
 }
 
+function SilentSignIn() {
+  useSilentAuth();
+  return null;
+}
+
 function ScrollToTop() {
   const { pathname } = useLocation();
   useEffect(() => {
@@ -3189,25 +4139,84 @@ function ScrollToTop() {
   return null;
 }
 
+function formatCountdown(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/** Idle sign-out warning; shown in every open tab at once (see hooks/useIdleTimeout). */
+function IdleTimeoutDialog() {
+  const idle = useIdleTimeout();
+  const stayButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (idle.warningVisible) stayButtonRef.current?.focus();
+  }, [idle.warningVisible]);
+
+  if (!idle.warningVisible) return null;
+  return (
+    <div className="idle-dialog-backdrop">
+      <div
+        className="idle-dialog status-card"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-dialog-title"
+        aria-describedby="idle-dialog-description"
+      >
+        <h2 id="idle-dialog-title">Are you still there?</h2>
+        <p id="idle-dialog-description">
+          For your security you will be signed out in{' '}
+          <strong aria-live="polite">{formatCountdown(idle.secondsRemaining)}</strong> due to inactivity.
+        </p>
+        {idle.error && (
+          <p className="form-message form-message-error" role="alert">
+            {idle.error}
+          </p>
+        )}
+        <div className="status-actions">
+          <button className="secondary-button" type="button" onClick={idle.signOut}>
+            Sign out
+          </button>
+          <button
+            ref={stayButtonRef}
+            className="primary-button"
+            type="button"
+            disabled={idle.extending}
+            onClick={() => void idle.staySignedIn()}
+          >
+            {idle.extending ? 'Extending...' : 'Stay signed in'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function App() {
   useTokenRefresh();
   return (
     <BootstrapProvider>
       <BrowserRouter>
-        <ScrollToTop />
-        <Routes>
-          <Route path="/" element={<LandingPage />} />
-          <Route path="/egav" element={<EgavPage />} />
-          <Route path="/automation" element={<AutomationPage />} />
-          <Route path="/egav-automation" element={<AutomationPage />} />
-          <Route path="/case-studies" element={<CaseStudiesPage />} />
-          <Route path="/case-studies/:slug" element={<CaseStudyDetailPage />} />
-          <Route path="/request-demo" element={<DemoRequestPage />} />
-          <Route path="/contact-us" element={<ContactUsPage />} />
-          <Route path="/login" element={<LoginPage />} />
-          <Route path="/register" element={<RegisterPage />} />
-          <Route path="/auth/callback" element={<AuthCallbackPage />} />
-        </Routes>
+        <AuthProvider>
+          <ScrollToTop />
+          <IdleTimeoutDialog />
+          <SilentSignIn />
+          <Routes>
+            <Route path="/" element={<LandingPage />} />
+            <Route path="/egav" element={<EgavPage />} />
+            <Route path="/automation" element={<AutomationPage />} />
+            <Route path="/egav-automation" element={<AutomationPage />} />
+            <Route path="/case-studies" element={<CaseStudiesPage />} />
+            <Route path="/case-studies/:slug" element={<CaseStudyDetailPage />} />
+            <Route path="/request-demo" element={<DemoRequestPage />} />
+            <Route path="/contact-us" element={<ContactUsPage />} />
+            <Route path="/login" element={<LoginPage />} />
+            <Route path="/register" element={<RegisterPage />} />
+            <Route path="/auth/callback" element={<AuthCallbackPage />} />
+            <Route path="/auth/magic" element={<MagicLinkPage />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </BootstrapProvider>
   );
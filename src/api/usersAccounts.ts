@@ -25,6 +25,17 @@ export function getAuthnBaseUrl(): string {
   return config?.services?.authn_url ?? '';
 }
 
+// Apps on the same parent domain that the marketing site links to (and may redirect to).
+export function getAppBaseUrl(): string {
+  const env = process.env.REACT_APP_APP_BASE_URL;
+  if (env) return env;
+  return `${window.location.protocol}//${window.location.hostname}:3201`;
+}
+
+export function getPortalBaseUrl(): string {
+  return process.env.REACT_APP_PORTAL_BASE_URL || 'https://portal.local.synaptagrid.io:3203';
+}
+
 export type CaptchaConfigResponse = {
   site_key: string;
   captcha_enabled: boolean;
@@ -47,3 +58,83 @@ export async function fetchCaptchaConfig(): Promise<CaptchaConfigResponse> {
 export const CONTACT_US_PATH = '/v1/users-accounts/public/contact-us';
 export const SCHEDULE_DEMO_PATH = '/v1/users-accounts/public/schedule-demo';
 export const SIGNUP_PATH = '/v1/users-accounts/public/signup';
+
+export type SignupField = 'name' | 'email' | 'company' | 'password' | 'accepted_terms';
+
+export type SignupRequest = {
+  name: string;
+  email: string;
+  company: string;
+  password: string;
+  accepted_terms: boolean;
+  captcha_token?: string;
+  hostname?: string;
+};
+
+export type SignupResponse = {
+  user_guid: string;
+  email: string;
+  email_verification_required: boolean;
+  organization?: { guid: string; slug: string; name: string };
+  // Present when verification is not required and the workspace is provisioned immediately.
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  refresh_expires_in?: number;
+};
+
+/** Signup failure; `fieldErrors` carries messages the form shows next to the matching inputs. */
+export class SignupError extends Error {
+  status: number;
+  fieldErrors: Partial<Record<SignupField, string>>;
+
+  constructor(message: string, status: number, fieldErrors: Partial<Record<SignupField, string>> = {}) {
+    super(message);
+    this.name = 'SignupError';
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+const SIGNUP_FIELDS: SignupField[] = ['name', 'email', 'company', 'password', 'accepted_terms'];
+
+function signupErrorFromResponse(status: number, data: unknown): SignupError {
+  const body = (data ?? {}) as { message?: unknown; detail?: unknown };
+  const fieldErrors: Partial<Record<SignupField, string>> = {};
+  if (Array.isArray(body.detail)) {
+    // FastAPI 422: [{ loc: ['body', 'email'], msg: '...' }]
+    for (const item of body.detail as { loc?: (string | number)[]; msg?: string }[]) {
+      const field = item?.loc?.[item.loc.length - 1] as SignupField | undefined;
+      if (field && SIGNUP_FIELDS.includes(field) && typeof item.msg === 'string' && !fieldErrors[field]) {
+        fieldErrors[field] = item.msg;
+      }
+    }
+  }
+  const raw = typeof body.message === 'string' ? body.message : typeof body.detail === 'string' ? body.detail : '';
+  const message = raw.trim() && raw.length < 300 ? raw.trim() : 'Something went wrong. Please try again.';
+  if (status === 409 || /already (exists|registered|in use)/i.test(message)) {
+    fieldErrors.email = 'An account with this email already exists.';
+  } else if (/captcha_token.*at least 1 character/i.test(message)) {
+    return new SignupError('Please complete the captcha before submitting.', status, fieldErrors);
+  }
+  return new SignupError(message, status, fieldErrors);
+}
+
+export async function submitSignup(request: SignupRequest): Promise<SignupResponse> {
+  const res = await fetch(`${getControlPlaneBaseUrl()}${SIGNUP_PATH}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'omit',
+    body: JSON.stringify(request),
+  });
+  if (!res.ok) {
+    let data: unknown = null;
+    try {
+      data = await res.json();
+    } catch {
+      /* use default */
+    }
+    throw signupErrorFromResponse(res.status, data);
+  }
+  return res.json() as Promise<SignupResponse>;
+}
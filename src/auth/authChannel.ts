@@ -0,0 +1,52 @@
+/**
+ * Same-origin messages between open tabs about the shared session (sign-out, token refresh).
+ * Uses BroadcastChannel; falls back to localStorage `storage` events where it is missing.
+ */
+
+const AUTH_CHANNEL_NAME = 'synaptagrid_auth';
+const AUTH_STORAGE_KEY = 'synaptagrid_auth_message';
+
+/**
+ * Messages never carry tokens: the localStorage fallback would persist them, and the memory
+ * store keeps tokens per tab on purpose. Listeners re-read the (shared) token store instead.
+ */
+export type AuthMessage = { type: 'logout' } | { type: 'tokens_refreshed' };
+
+export function postAuthMessage(message: AuthMessage): void {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(AUTH_CHANNEL_NAME);
+    channel.postMessage(message);
+    channel.close();
+    return;
+  }
+  try {
+    // Timestamp makes repeated identical messages still fire a storage event.
+    localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ message, sent_at_ms: Date.now() }));
+    localStorage.removeItem(AUTH_STORAGE_KEY);
+  } catch {
+    /* ignore */
+  }
+}
+
+/** Receive messages posted by other tabs (never this one). Returns an unsubscribe function. */
+export function subscribeToAuthMessages(listener: (message: AuthMessage) => void): () => void {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(AUTH_CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<AuthMessage>) => {
+      if (event.data?.type) listener(event.data);
+    };
+    return () => channel.close();
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== AUTH_STORAGE_KEY || !event.newValue) return;
+    try {
+      const parsed = JSON.parse(event.newValue) as { message?: AuthMessage };
+      if (parsed.message?.type) listener(parsed.message);
+    } catch {
+      /* ignore */
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+}
@@ -0,0 +1,249 @@
+import { IdTokenValidationError } from './idToken';
+
+/**
+ * Typed sign-in failures. OAuth `error` params (callback URL or token endpoint) and AuthN
+ * error bodies are mapped to one `AuthErrorCode`, which drives the guidance and the retry
+ * action shown on the callback page.
+ */
+
+export type AuthErrorCode =
+  | 'invalid_state'
+  | 'access_denied'
+  | 'consent_required'
+  | 'login_required'
+  | 'interaction_required'
+  | 'invalid_token'
+  | 'token_exchange_failed'
+  | 'bootstrap_failed'
+  | 'account_disabled'
+  | 'account_locked'
+  | 'email_not_verified'
+  | 'rate_limited'
+  | 'provider_unavailable'
+  | 'config_missing'
+  | 'network_error'
+  | 'server_error'
+  | 'unknown';
+
+export class AuthError extends Error {
+  code: AuthErrorCode;
+  /** HTTP status when the failure came from a response (0 for network errors). */
+  status: number | null;
+
+  constructor(code: AuthErrorCode, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/** What the user can do about an error: start over, retry the same step, or ask an admin. */
+export type AuthErrorAction = 'retry' | 'restart' | 'contact_admin' | 'none';
+
+export type AuthErrorGuidance = {
+  title: string;
+  guidance: string;
+  action: AuthErrorAction;
+};
+
+const GUIDANCE: Record<AuthErrorCode, AuthErrorGuidance> = {
+  invalid_state: {
+    title: 'Sign-in session expired',
+    guidance: 'This sign-in started in another tab or took too long. Start again from this tab.',
+    action: 'restart',
+  },
+  access_denied: {
+    title: 'Sign-in was cancelled',
+    guidance: 'Access was denied at your identity provider. Try again, or use another sign-in option.',
+    action: 'restart',
+  },
+  consent_required: {
+    title: 'Permission needed',
+    guidance: 'SynaptaGrid needs your approval to read your basic profile. Try again and accept the request.',
+    action: 'retry',
+  },
+  login_required: {
+    title: 'Please sign in',
+    guidance: 'Your identity provider session has ended. Sign in again to continue.',
+    action: 'retry',
+  },
+  interaction_required: {
+    title: 'Additional step required',
+    guidance: 'Your identity provider needs you to complete a step (for example MFA). Try again to continue.',
+    action: 'retry',
+  },
+  invalid_token: {
+    title: 'Sign-in could not be verified',
+    guidance: 'The response from your identity provider failed verification. Try again; if it keeps happening, check your device clock.',
+    action: 'retry',
+  },
+  token_exchange_failed: {
+    title: 'Sign-in could not be completed',
+    guidance: 'The sign-in code expired or was already used. Start the sign-in again.',
+    action: 'retry',
+  },
+  bootstrap_failed: {
+    title: 'Could not load your workspace',
+    guidance: 'You are signed in, but we could not load your account details. Try again in a moment.',
+    action: 'retry',
+  },
+  account_disabled: {
+    title: 'Account disabled',
+    guidance: 'This account has been disabled. Contact your administrator to restore access.',
+    action: 'contact_admin',
+  },
+  account_locked: {
+    title: 'Account locked',
+    guidance: 'Too many failed attempts locked this account. Wait a few minutes or contact your administrator.',
+    action: 'contact_admin',
+  },
+  email_not_verified: {
+    title: 'Verify your email',
+    guidance: 'Open the verification link we sent to your inbox, then sign in again.',
+    action: 'restart',
+  },
+  rate_limited: {
+    title: 'Too many attempts',
+    guidance: 'Please wait a minute before trying again.',
+    action: 'retry',
+  },
+  provider_unavailable: {
+    title: 'Sign-in provider unavailable',
+    guidance: 'This sign-in option is not available right now. Try another option or contact your administrator.',
+    action: 'restart',
+  },
+  config_missing: {
+    title: 'Sign-in is not configured',
+    guidance: 'Sign-in is not set up for this site yet. Contact your administrator.',
+    action: 'contact_admin',
+  },
+  network_error: {
+    title: 'Connection problem',
+    guidance: 'We could not reach the sign-in service. Check your connection and try again.',
+    action: 'retry',
+  },
+  server_error: {
+    title: 'Sign-in service error',
+    guidance: 'The sign-in service had a problem. Try again in a moment.',
+    action: 'retry',
+  },
+  unknown: {
+    title: 'Sign-in failed',
+    guidance: 'Something went wrong while signing you in. Please try again.',
+    action: 'retry',
+  },
+};
+
+export function getAuthErrorGuidance(code: AuthErrorCode): AuthErrorGuidance {
+  return GUIDANCE[code];
+}
+
+// OAuth 2.0 / OIDC `error` values (RFC 6749 4.1.2.1, 5.2; OIDC Core 3.1.2.6) plus AuthN's own codes.
+const ERROR_PARAM_CODES: Record<string, AuthErrorCode> = {
+  access_denied: 'access_denied',
+  consent_required: 'consent_required',
+  login_required: 'login_required',
+  interaction_required: 'interaction_required',
+  account_selection_required: 'interaction_required',
+  invalid_grant: 'token_exchange_failed',
+  invalid_request: 'token_exchange_failed',
+  unauthorized_client: 'config_missing',
+  invalid_client: 'config_missing',
+  unsupported_response_type: 'config_missing',
+  invalid_scope: 'config_missing',
+  server_error: 'server_error',
+  temporarily_unavailable: 'server_error',
+  invalid_state: 'invalid_state',
+  state_mismatch: 'invalid_state',
+  account_disabled: 'account_disabled',
+  user_disabled: 'account_disabled',
+  account_locked: 'account_locked',
+  user_locked: 'account_locked',
+  email_not_verified: 'email_not_verified',
+  rate_limited: 'rate_limited',
+  too_many_requests: 'rate_limited',
+};
+
+function codeFromErrorValue(value: string | null | undefined): AuthErrorCode | null {
+  if (!value) return null;
+  return ERROR_PARAM_CODES[value.trim().toLowerCase()] ?? null;
+}
+
+function codeFromMessage(message: string): AuthErrorCode | null {
+  if (/disabled|deactivated|suspended/i.test(message)) return 'account_disabled';
+  if (/locked/i.test(message)) return 'account_locked';
+  if (/not verified|verify your email/i.test(message)) return 'email_not_verified';
+  return null;
+}
+
+function codeFromStatus(status: number, fallback: AuthErrorCode): AuthErrorCode {
+  if (status === 423) return 'account_locked';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  return fallback;
+}
+
+/** From `?error=...&error_description=...` on a callback URL. */
+export function authErrorFromOAuthParams(error: string | null, description: string | null): AuthError {
+  const message = description ? description.replace(/\+/g, ' ') : '';
+  const code = codeFromErrorValue(error) ?? (message ? codeFromMessage(message) : null) ?? 'unknown';
+  return new AuthError(code, message || getAuthErrorGuidance(code).guidance);
+}
+
+type ErrorBody = {
+  error?: unknown;
+  error_description?: unknown;
+  code?: unknown;
+  message?: unknown;
+  detail?: unknown;
+};
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * From a failed AuthN / token endpoint response. Reads OAuth (`error`, `error_description`)
+ * and AuthN/FastAPI (`code`, `message`, `detail`) bodies; `fallback` applies when nothing
+ * more specific can be derived.
+ */
+export async function authErrorFromResponse(response: Response, fallback: AuthErrorCode): Promise<AuthError> {
+  let body: ErrorBody | null = null;
+  let text = '';
+  try {
+    text = await response.text();
+    body = text ? (JSON.parse(text) as ErrorBody) : null;
+  } catch {
+    body = null;
+  }
+  const detail = body?.detail && typeof body.detail === 'object' && !Array.isArray(body.detail) ? (body.detail as ErrorBody) : null;
+  const errorValue = readString(body?.error) ?? readString(body?.code) ?? readString(detail?.code) ?? readString(detail?.error);
+  const message =
+    readString(body?.error_description) ??
+    readString(body?.message) ??
+    readString(body?.detail) ??
+    readString(detail?.message) ??
+    (body === null && text.length < 300 ? readString(text) : null);
+
+  const code =
+    codeFromErrorValue(errorValue) ?? (message ? codeFromMessage(message) : null) ?? codeFromStatus(response.status, fallback);
+  // Only short server messages are worth showing verbatim.
+  const userMessage = message && message.length < 300 ? message : getAuthErrorGuidance(code).guidance;
+  return new AuthError(code, userMessage, response.status);
+}
+
+/** Normalize anything thrown during sign-in into an AuthError. */
+export function toAuthError(err: unknown): AuthError {
+  if (err instanceof AuthError) return err;
+  if (err instanceof IdTokenValidationError) {
+    if (err.code === 'config_missing') return new AuthError('config_missing', err.message);
+    if (err.code === 'jwks_unavailable') return new AuthError('server_error', err.message);
+    return new AuthError('invalid_token', err.message);
+  }
+  // fetch() rejects with TypeError when the request never got a response.
+  if (err instanceof TypeError) {
+    return new AuthError('network_error', getAuthErrorGuidance('network_error').guidance, 0);
+  }
+  return new AuthError('unknown', getAuthErrorGuidance('unknown').guidance);
+}
@@ -0,0 +1,115 @@
+/**
+ * Fragment tokens from the AuthN central callback (`/auth/callback#access_token=...`).
+ * The fragment is read once and scrubbed from the address bar right away so tokens don't
+ * linger in history, screenshots or referrers. A fingerprint of every consumed fragment is
+ * kept for the tab so a back/forward navigation to a stale entry is not processed twice.
+ */
+
+export type FragmentTokens = {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  /** Absent from AuthN fragments today; the cookie policy default applies then. */
+  refresh_expires_in?: number;
+  id_token?: string;
+};
+
+export type ConsumedCallbackFragment = {
+  tokens: FragmentTokens | null;
+  /** The fragment carried tokens this tab has already processed. */
+  replayed: boolean;
+};
+
+const SEEN_FRAGMENTS_KEY = 'synaptagrid_callback_fragments_seen';
+const MAX_SEEN_FRAGMENTS = 20;
+
+/** Parse tokens from AuthN central callback fragment (hash). AuthN social returns access_token only; OIDC/IdP flow may include id_token. */
+export function parseFragmentTokens(hash: string): FragmentTokens | null {
+  if (!hash || !hash.startsWith('#')) return null;
+  const params = new URLSearchParams(hash.slice(1));
+  const access_token = params.get('access_token');
+  if (!access_token) return null;
+  const expires_in = parseInt(params.get('expires_in') ?? '3600', 10);
+  const refresh_token = params.get('refresh_token') ?? undefined;
+  const id_token = params.get('id_token') ?? undefined;
+  const refreshExpiresIn = parseInt(params.get('refresh_expires_in') ?? '', 10);
+  const refresh_expires_in = Number.isFinite(refreshExpiresIn) && refreshExpiresIn > 0 ? refreshExpiresIn : undefined;
+  return { access_token, refresh_token, expires_in, refresh_expires_in, id_token };
+}
+
+// Non-cryptographic (djb2); only needs to tell fragments apart without storing the tokens.
+function fingerprint(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i += 1) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return `${value.length}:${(hash >>> 0).toString(36)}`;
+}
+
+function readSeenFragments(): string[] {
+  try {
+    const parsed = JSON.parse(sessionStorage.getItem(SEEN_FRAGMENTS_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function rememberFragment(id: string, seen: string[]): void {
+  try {
+    sessionStorage.setItem(SEEN_FRAGMENTS_KEY, JSON.stringify([...seen, id].slice(-MAX_SEEN_FRAGMENTS)));
+  } catch {
+    /* ignore */
+  }
+}
+
+/** Drop the fragment from the current history entry, keeping the router's history state. */
+function scrubLocationHash(): void {
+  const { pathname, search } = window.location;
+  try {
+    window.history.replaceState(window.history.state, '', `${pathname}${search}`);
+  } catch {
+    window.location.hash = '';
+  }
+}
+
+/**
+ * Read tokens from `location.hash` and remove them from the URL. Call this before any
+ * network request on the callback page.
+ */
+export function consumeCallbackFragment(): ConsumedCallbackFragment {
+  const hash = window.location.hash;
+  if (!hash || hash === '#') return { tokens: null, replayed: false };
+  const tokens = parseFragmentTokens(hash);
+  scrubLocationHash();
+  if (!tokens) return { tokens: null, replayed: false };
+
+  const id = fingerprint(tokens.access_token);
+  const seen = readSeenFragments();
+  if (seen.includes(id)) {
+    console.warn('[Auth Callback] Ignoring a callback fragment that was already processed');
+    return { tokens: null, replayed: true };
+  }
+  rememberFragment(id, seen);
+  return { tokens, replayed: false };
+}
+
+/**
+ * Send no Referer from this document until the returned restore function runs. The callback
+ * URL carries codes and state that must not reach third parties (fonts, analytics, IdP logout).
+ */
+export function applyNoReferrerPolicy(): () => void {
+  const existing = document.querySelector<HTMLMetaElement>('meta[name="referrer"]');
+  const previous = existing?.content ?? null;
+  const meta = existing ?? document.createElement('meta');
+  meta.name = 'referrer';
+  meta.content = 'no-referrer';
+  if (!existing) document.head.appendChild(meta);
+  return () => {
+    if (previous === null) {
+      meta.remove();
+    } else {
+      meta.content = previous;
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import { clearAccessTokenCookie, getAccessTokenCookie, setAccessTokenCookie } from './cookie';
+
+jest.mock('../contexts/BootstrapContext', () => ({
+  getBootstrapConfig: () => null,
+}));
+
+const NAME = 'synaptagrid_access_token';
+
+function cookieNames(): string[] {
+  return document.cookie
+    .split(';')
+    .map((cookie) => cookie.trim().split('=')[0])
+    .filter(Boolean)
+    .sort();
+}
+
+function removeCookie(name: string): void {
+  document.cookie = `${name}=; path=/; max-age=0`;
+}
+
+beforeEach(() => {
+  clearAccessTokenCookie();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('token cookie chunking', () => {
+  it('keeps a short token in the plain cookie', () => {
+    setAccessTokenCookie('header.payload.signature', 300);
+    expect(cookieNames()).toEqual([NAME]);
+    expect(getAccessTokenCookie()).toBe('header.payload.signature');
+  });
+
+  it('splits a long token across chunks and reassembles it', () => {
+    const token = 'a'.repeat(9000);
+    setAccessTokenCookie(token, 300);
+    expect(cookieNames()).toEqual([`${NAME}.0`, `${NAME}.1`, `${NAME}.2`]);
+    expect(getAccessTokenCookie()).toBe(token);
+  });
+
+  it('never splits a percent-escape across chunks', () => {
+    // 'é' encodes to %C3%A9, so fixed-size chunks would cut escapes.
+    const token = `x${'é'.repeat(2000)}`;
+    setAccessTokenCookie(token, 300);
+    expect(cookieNames().length).toBeGreaterThan(1);
+    expect(getAccessTokenCookie()).toBe(token);
+  });
+
+  it('clears leftover chunks when the token shrinks', () => {
+    setAccessTokenCookie('a'.repeat(9000), 300);
+    setAccessTokenCookie('b'.repeat(5000), 300);
+    expect(cookieNames()).toEqual([`${NAME}.0`, `${NAME}.1`]);
+    expect(getAccessTokenCookie()).toBe('b'.repeat(5000));
+
+    setAccessTokenCookie('short', 300);
+    expect(cookieNames()).toEqual([NAME]);
+    expect(getAccessTokenCookie()).toBe('short');
+  });
+
+  it('drops the plain cookie when the token grows', () => {
+    setAccessTokenCookie('short', 300);
+    setAccessTokenCookie('a'.repeat(5000), 300);
+    expect(cookieNames()).toEqual([`${NAME}.0`, `${NAME}.1`]);
+    expect(getAccessTokenCookie()).toBe('a'.repeat(5000));
+  });
+
+  it('prefers the plain cookie over stale chunks', () => {
+    setAccessTokenCookie('a'.repeat(5000), 300);
+    document.cookie = `${NAME}=current; path=/`;
+    expect(getAccessTokenCookie()).toBe('current');
+  });
+
+  it('treats a token with a missing first chunk as absent', () => {
+    setAccessTokenCookie('a'.repeat(9000), 300);
+    removeCookie(`${NAME}.0`);
+    expect(getAccessTokenCookie()).toBeNull();
+  });
+
+  it('treats a token with a missing middle chunk as absent', () => {
+    setAccessTokenCookie('a'.repeat(9000), 300);
+    removeCookie(`${NAME}.1`);
+    expect(getAccessTokenCookie()).toBeNull();
+  });
+
+  it('treats a chunk cut mid-escape as absent', () => {
+    document.cookie = `${NAME}.0=abc%C3; path=/`;
+    expect(getAccessTokenCookie()).toBeNull();
+  });
+
+  it('refuses a token that needs too many chunks', () => {
+    setAccessTokenCookie('a'.repeat(5000), 300);
+    setAccessTokenCookie('a'.repeat(40000), 300);
+    expect(cookieNames()).toEqual([]);
+    expect(getAccessTokenCookie()).toBeNull();
+    expect(console.error).toHaveBeenCalledWith('[Auth] Token is too large to store in cookies', expect.anything());
+  });
+
+  it('clears the plain cookie and every chunk', () => {
+    setAccessTokenCookie('a'.repeat(9000), 300);
+    clearAccessTokenCookie();
+    expect(cookieNames()).toEqual([]);
+  });
+});
@@ -1,7 +1,16 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import { getCookiePolicy, getRefreshLifetimeSeconds, isPersistentSession } from './cookiePolicy';
+import { getRegistrableDomain, isPublicSuffix } from './publicSuffix';
+
 /**
  * Persist access and refresh tokens in cookies so the FE can send Bearer on all API requests.
  * Cookies are readable by JS (not HttpOnly) and set for the parent domain so they are
  * available across marketing site, portal, and other apps on the same domain.
+ *
+ * Browsers drop cookies over ~4 KB without an error, so longer tokens are split across
+ * `<name>.0`, `<name>.1`, ... and reassembled on read; short ones keep the plain `<name>`
+ * cookie other apps already read. SameSite, Partitioned and lifetimes follow the cookie
+ * policy (see auth/cookiePolicy).
  */
 
 const COOKIE_NAME =
@@ -9,34 +18,56 @@ const COOKIE_NAME =
 const REFRESH_COOKIE_NAME =
   process.env.REACT_APP_REFRESH_TOKEN_COOKIE_NAME || 'synaptagrid_refresh_token';
 
+// Encoded value length per cookie; leaves room for the name and attributes under 4096 bytes.
+const MAX_CHUNK_LENGTH = 3800;
+// Browsers cap cookies per domain (~50-180); beyond this the token is unusable anyway.
+const MAX_CHUNKS = 8;
+
+/** Whether a cookie for `domain` may be set from `hostname` (the host is on it, and it isn't a public suffix). */
+function isUsableCookieDomain(domain: string, hostname: string): boolean {
+  const bare = domain.replace(/^\./, '').toLowerCase();
+  const host = hostname.toLowerCase();
+  return Boolean(bare) && (host === bare || host.endsWith(`.${bare}`)) && !isPublicSuffix(bare);
+}
+
 /**
  * Get the parent domain for cookie sharing across subdomains (e.g. .synaptagrid.io).
- * Returns null for localhost or single-label hostnames.
+ * Bootstrap `auth.cookie_domain` (tenants on custom domains) wins over
+ * REACT_APP_ACCESS_TOKEN_COOKIE_DOMAIN; either is ignored when this host isn't on it.
+ * Otherwise the registrable domain is used. Returns null for localhost or IP addresses.
  */
 function getCookieDomain(): string | null {
-  const envDomain = process.env.REACT_APP_ACCESS_TOKEN_COOKIE_DOMAIN;
-  if (envDomain) {
-    return envDomain.startsWith('.') ? envDomain : `.${envDomain}`;
-  }
   const hostname = window.location.hostname;
-  if (hostname === 'localhost' || hostname === '127.0.0.1') {
-    return null;
-  }
-  const parts = hostname.split('.');
-  if (parts.length >= 2) {
-    return `.${parts.slice(-2).join('.')}`;
+  const configured = [getBootstrapConfig()?.auth?.cookie_domain, process.env.REACT_APP_ACCESS_TOKEN_COOKIE_DOMAIN];
+  for (const candidate of configured) {
+    const domain = candidate?.trim();
+    if (!domain) continue;
+    if (isUsableCookieDomain(domain, hostname)) {
+      return domain.startsWith('.') ? domain : `.${domain}`;
+    }
+    console.warn('[Auth] Ignoring cookie domain that does not cover this host', { domain, hostname });
   }
-  return null;
+  const registrable = getRegistrableDomain(hostname);
+  return registrable ? `.${registrable}` : null;
 }
 
-export function setAccessTokenCookie(value: string, maxAgeSeconds: number): void {
+const SAME_SITE_ATTRIBUTE = { lax: 'Lax', strict: 'Strict', none: 'None' } as const;
+
+/**
+ * Cookie string under the current policy. `maxAgeSeconds` null makes a session cookie;
+ * 0 expires the cookie. `partitioned` overrides the policy (to expire the other variant).
+ */
+function buildCookie(name: string, value: string, maxAgeSeconds: number | null, partitioned?: boolean): string {
+  const policy = getCookiePolicy();
   const secure = window.location.protocol === 'https:';
-  const parts = [
-    `${encodeURIComponent(COOKIE_NAME)}=${encodeURIComponent(value)}`,
-    'path=/',
-    `max-age=${maxAgeSeconds}`,
-    'SameSite=Lax',
-  ];
+  // Partitioned requires SameSite=None; both require Secure, so plain-http dev falls back to Lax.
+  const isPartitioned = secure && (partitioned ?? policy.partitioned);
+  const sameSite = isPartitioned ? 'none' : policy.sameSite === 'none' && !secure ? 'lax' : policy.sameSite;
+  const parts = [`${encodeURIComponent(name)}=${value}`, 'path=/'];
+  if (maxAgeSeconds !== null) {
+    parts.push(`max-age=${maxAgeSeconds}`);
+  }
+  parts.push(`SameSite=${SAME_SITE_ATTRIBUTE[sameSite]}`);
   const domain = getCookieDomain();
   if (domain) {
     parts.push(`domain=${domain}`);
@@ -44,85 +75,133 @@ export function setAccessTokenCookie(value: string, maxAgeSeconds: number): void
   if (secure) {
     parts.push('Secure');
   }
-  document.cookie = parts.join('; ');
+  if (isPartitioned) {
+    parts.push('Partitioned');
+  }
+  return parts.join('; ');
 }
 
-export function getAccessTokenCookie(): string | null {
-  const name = encodeURIComponent(COOKIE_NAME);
-  const cookies = document.cookie.split(';');
-  for (const cookie of cookies) {
+/** Raw (still URI-encoded) cookie values by name. */
+function readCookies(): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const cookie of document.cookie.split(';')) {
     const trimmed = cookie.trim();
-    if (trimmed.startsWith(`${name}=`)) {
-      const value = trimmed.slice(name.length + 1).trim();
-      try {
-        return decodeURIComponent(value) || null;
-      } catch {
-        return null;
-      }
-    }
+    const eq = trimmed.indexOf('=');
+    if (eq <= 0) continue;
+    const name = trimmed.slice(0, eq);
+    // Keep the first of duplicate names (set on another path or domain), as servers do.
+    if (!cookies.has(name)) cookies.set(name, trimmed.slice(eq + 1).trim());
   }
-  return null;
+  return cookies;
 }
 
-export function clearAccessTokenCookie(): void {
-  const parts = [
-    `${encodeURIComponent(COOKIE_NAME)}=`,
-    'path=/',
-    'max-age=0',
-    'SameSite=Lax',
-  ];
-  const domain = getCookieDomain();
-  if (domain) {
-    parts.push(`domain=${domain}`);
+function chunkName(name: string, index: number): string {
+  return `${name}.${index}`;
+}
+
+/** Chunk cookies currently set for `name` (`<name>.0`, `<name>.1`, ...). */
+function countChunks(cookies: Map<string, string>, name: string): number {
+  let count = 0;
+  while (cookies.has(encodeURIComponent(chunkName(name, count)))) {
+    count += 1;
   }
-  document.cookie = parts.join('; ');
+  return count;
 }
 
-export function setRefreshTokenCookie(value: string, maxAgeSeconds: number): void {
-  const secure = window.location.protocol === 'https:';
-  const parts = [
-    `${encodeURIComponent(REFRESH_COOKIE_NAME)}=${encodeURIComponent(value)}`,
-    'path=/',
-    `max-age=${maxAgeSeconds}`,
-    'SameSite=Lax',
-  ];
-  const domain = getCookieDomain();
-  if (domain) {
-    parts.push(`domain=${domain}`);
+function expireCookie(name: string): void {
+  document.cookie = buildCookie(name, '', 0);
+  // Partitioned and unpartitioned cookies live in separate jars; clear both after a policy change.
+  document.cookie = buildCookie(name, '', 0, !getCookiePolicy().partitioned);
+}
+
+function getChunkedCookie(name: string): string | null {
+  const cookies = readCookies();
+  let encoded = cookies.get(encodeURIComponent(name));
+  if (encoded === undefined) {
+    const count = countChunks(cookies, name);
+    // A later chunk past a gap means one went missing; what is left isn't the token.
+    if (count === 0 || cookies.has(encodeURIComponent(chunkName(name, count + 1)))) return null;
+    encoded = Array.from({ length: count }, (_, i) => cookies.get(encodeURIComponent(chunkName(name, i))) ?? '').join('');
   }
-  if (secure) {
-    parts.push('Secure');
+  try {
+    return decodeURIComponent(encoded) || null;
+  } catch {
+    // A chunk went missing (or was cut mid-escape); treat the token as absent.
+    return null;
   }
-  document.cookie = parts.join('; ');
 }
 
-export function getRefreshTokenCookie(): string | null {
-  const name = encodeURIComponent(REFRESH_COOKIE_NAME);
-  const cookies = document.cookie.split(';');
-  for (const cookie of cookies) {
-    const trimmed = cookie.trim();
-    if (trimmed.startsWith(`${name}=`)) {
-      const value = trimmed.slice(name.length + 1).trim();
-      try {
-        return decodeURIComponent(value) || null;
-      } catch {
-        return null;
-      }
+/** Expire chunk cookies from `fromChunk` on (leftovers of a longer token). */
+function clearChunks(name: string, fromChunk: number): void {
+  const count = countChunks(readCookies(), name);
+  for (let i = fromChunk; i < count; i += 1) {
+    expireCookie(chunkName(name, i));
+  }
+}
+
+function clearChunkedCookie(name: string): void {
+  clearChunks(name, 0);
+  expireCookie(name);
+}
+
+function setChunkedCookie(name: string, value: string, maxAgeSeconds: number | null): void {
+  const encoded = encodeURIComponent(value);
+  if (encoded.length <= MAX_CHUNK_LENGTH) {
+    document.cookie = buildCookie(name, encoded, maxAgeSeconds);
+    clearChunks(name, 0);
+  } else {
+    const chunks: string[] = [];
+    // Never split a %XX escape across cookies.
+    for (let start = 0; start < encoded.length; ) {
+      let end = Math.min(start + MAX_CHUNK_LENGTH, encoded.length);
+      const escapeAt = encoded.lastIndexOf('%', end - 1);
+      if (end < encoded.length && escapeAt > end - 3) end = escapeAt;
+      chunks.push(encoded.slice(start, end));
+      start = end;
     }
+    if (chunks.length > MAX_CHUNKS) {
+      console.error('[Auth] Token is too large to store in cookies', { name, length: value.length });
+      clearChunkedCookie(name);
+      return;
+    }
+    expireCookie(name);
+    chunks.forEach((chunk, i) => {
+      document.cookie = buildCookie(chunkName(name, i), chunk, maxAgeSeconds);
+    });
+    clearChunks(name, chunks.length);
+  }
+  if (getChunkedCookie(name) !== value) {
+    console.error('[Auth] Browser did not store the token cookie', { name, domain: getCookieDomain() });
   }
-  return null;
+}
+
+export function setAccessTokenCookie(value: string, maxAgeSeconds: number): void {
+  setChunkedCookie(COOKIE_NAME, value, isPersistentSession() ? maxAgeSeconds : null);
+}
+
+export function getAccessTokenCookie(): string | null {
+  return getChunkedCookie(COOKIE_NAME);
+}
+
+export function clearAccessTokenCookie(): void {
+  clearChunkedCookie(COOKIE_NAME);
+}
+
+/** `maxAgeSeconds` defaults to the policy's refresh lifetime. */
+export function setRefreshTokenCookie(value: string, maxAgeSeconds?: number): void {
+  setChunkedCookie(REFRESH_COOKIE_NAME, value, isPersistentSession() ? getRefreshLifetimeSeconds(maxAgeSeconds) : null);
+}
+
+export function getRefreshTokenCookie(): string | null {
+  return getChunkedCookie(REFRESH_COOKIE_NAME);
 }
 
 export function clearRefreshTokenCookie(): void {
-  const parts = [
-    `${encodeURIComponent(REFRESH_COOKIE_NAME)}=`,
-    'path=/',
-    'max-age=0',
-    'SameSite=Lax',
-  ];
-  const domain = getCookieDomain();
-  if (domain) {
-    parts.push(`domain=${domain}`);
-  }
-  document.cookie = parts.join('; ');
+  clearChunkedCookie(REFRESH_COOKIE_NAME);
+}
+
+/** Clear both access and refresh token cookies on the parent domain (sign-out). */
+export function clearAuthCookies(): void {
+  clearAccessTokenCookie();
+  clearRefreshTokenCookie();
 }
@@ -0,0 +1,92 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import type { BootstrapConfig } from '../contexts/BootstrapContext';
+
+/**
+ * Token cookie policy from bootstrap `auth.cookie_policy`, then REACT_APP_COOKIE_* env vars,
+ * then defaults (SameSite=Lax, persistent cookies, 30-day refresh lifetime). Applied by
+ * setAccessTokenCookie/setRefreshTokenCookie; the memory store uses the same lifetimes.
+ */
+
+export type CookieSameSite = 'lax' | 'strict' | 'none';
+
+/**
+ * `persistent`: cookies survive a browser restart (max-age); `session`: they never do;
+ * `remember_me`: the user picks at sign-in ("Keep me signed in").
+ */
+export type CookiePersistence = 'persistent' | 'session' | 'remember_me';
+
+export type CookiePolicy = {
+  sameSite: CookieSameSite;
+  /** CHIPS `Partitioned` cookies, for when the site is embedded in another site's iframe. */
+  partitioned: boolean;
+  persistence: CookiePersistence;
+  /** Refresh cookie lifetime when the token response has no `refresh_expires_in`. */
+  refreshLifetimeSeconds: number;
+};
+
+const REMEMBER_ME_KEY = 'synaptagrid_remember_me';
+// The AuthN central callback doesn't report refresh_expires_in; its refresh tokens last 30 days.
+const DEFAULT_REFRESH_LIFETIME_SECONDS = 86400 * 30;
+
+function readSameSite(value: string | null | undefined): CookieSameSite | null {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === 'lax' || normalized === 'strict' || normalized === 'none' ? normalized : null;
+}
+
+function readPersistence(value: string | null | undefined): CookiePersistence | null {
+  return value === 'persistent' || value === 'session' || value === 'remember_me' ? value : null;
+}
+
+function readSeconds(value: number | string | null | undefined): number | null {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? Math.floor(n) : null;
+}
+
+function readBoolean(value: boolean | string | null | undefined): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return null;
+}
+
+export function getCookiePolicy(config: BootstrapConfig | null = getBootstrapConfig()): CookiePolicy {
+  const policy = config?.auth?.cookie_policy;
+  const env = process.env;
+  return {
+    sameSite: readSameSite(policy?.same_site) ?? readSameSite(env.REACT_APP_COOKIE_SAMESITE) ?? 'lax',
+    partitioned: readBoolean(policy?.partitioned) ?? readBoolean(env.REACT_APP_COOKIE_PARTITIONED) ?? false,
+    persistence: readPersistence(policy?.persistence) ?? readPersistence(env.REACT_APP_COOKIE_PERSISTENCE) ?? 'persistent',
+    refreshLifetimeSeconds:
+      readSeconds(policy?.refresh_lifetime_seconds) ??
+      readSeconds(env.REACT_APP_REFRESH_TOKEN_LIFETIME_SECONDS) ??
+      DEFAULT_REFRESH_LIFETIME_SECONDS,
+  };
+}
+
+/** The user's "Keep me signed in" choice (kept across sign-ins to pre-fill the checkbox). */
+export function getRememberMe(): boolean {
+  try {
+    return localStorage.getItem(REMEMBER_ME_KEY) !== '0';
+  } catch {
+    return true;
+  }
+}
+
+export function setRememberMe(remember: boolean): void {
+  try {
+    localStorage.setItem(REMEMBER_ME_KEY, remember ? '1' : '0');
+  } catch {
+    /* ignore */
+  }
+}
+
+/** Whether token cookies should outlive the browser session under `policy`. */
+export function isPersistentSession(policy: CookiePolicy = getCookiePolicy()): boolean {
+  if (policy.persistence === 'remember_me') return getRememberMe();
+  return policy.persistence === 'persistent';
+}
+
+/** Refresh token lifetime: the token response's own, else the policy default. */
+export function getRefreshLifetimeSeconds(refreshExpiresIn?: number): number {
+  return refreshExpiresIn ?? getCookiePolicy().refreshLifetimeSeconds;
+}
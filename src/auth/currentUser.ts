@@ -0,0 +1,68 @@
+import { getAuthnBaseUrl } from '../api/usersAccounts';
+import { getDisplayNameFromClaims } from './jwt';
+import { mapProviderClaims } from './providerAdapters';
+import type { JwtClaims } from './jwt';
+import { getStoredUser, getUserDisplayName, setStoredUser } from './session';
+import type { SessionOrganization, SessionUser } from './session';
+import { authFetch, getTokenStore } from './tokenStore';
+
+/** AuthN `/me` (and BFF session) user payload. */
+export type CurrentUserResponse = {
+  user: { email: string; display_name?: string; name?: string };
+  /** Organization of the current session and the user's memberships (role per organization). */
+  organization?: SessionOrganization | null;
+  organizations?: SessionOrganization[];
+};
+
+async function fetchCurrentUserResponse(): Promise<CurrentUserResponse | null> {
+  const store = getTokenStore();
+  if (store.fetchSession) {
+    // BFF: tokens are HttpOnly; the session endpoint reports the user.
+    const session = await store.fetchSession();
+    return session?.authenticated && session.user
+      ? { user: session.user, organization: session.organization, organizations: session.organizations }
+      : null;
+  }
+  const authnBaseUrl = getAuthnBaseUrl();
+  const mePath = process.env.REACT_APP_AUTHN_ME_PATH || '/v1/authn/me';
+  const res = await authFetch(`${authnBaseUrl}${mePath}`, { method: 'GET' }, store);
+  return res.ok ? ((await res.json()) as CurrentUserResponse) : null;
+}
+
+/** User and workspace as the access token describes them (no network). */
+export function getUserFromClaims(rawClaims: JwtClaims | null): SessionUser | null {
+  const claims = mapProviderClaims(rawClaims);
+  if (!claims?.email) return null;
+  return {
+    name: getDisplayNameFromClaims(claims) ?? 'User',
+    email: claims.email,
+    organization: claims.org_guid || claims.org_slug ? { guid: claims.org_guid, slug: claims.org_slug, name: claims.org_name } : null,
+    role: claims.role ?? claims.roles?.[0] ?? null,
+  };
+}
+
+/**
+ * Load the signed-in user from AuthN and cache it for this tab. Falls back to the cached
+ * user when AuthN can't be reached.
+ */
+export async function fetchCurrentUser(): Promise<SessionUser | null> {
+  try {
+    const data = await fetchCurrentUserResponse();
+    const u = data?.user;
+    if (!data || !u?.email) return getStoredUser();
+    const cached = getStoredUser();
+    const sameUser = cached?.email === u.email;
+    const user: SessionUser = {
+      name: getUserDisplayName(u),
+      email: u.email,
+      // Older AuthN /me has no workspace; keep what sign-in told us.
+      organization: data.organization ?? (sameUser ? cached.organization : null),
+      role: data.organization?.role ?? (sameUser ? cached.role : null),
+      organizations: data.organizations ?? (sameUser ? cached.organizations : []),
+    };
+    setStoredUser(user, { fetched: true });
+    return user;
+  } catch {
+    return getStoredUser();
+  }
+}
@@ -0,0 +1,185 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import type { BootstrapConfig } from '../contexts/BootstrapContext';
+import { bytesToBase64Url, decodeJwt } from './jwt';
+
+/**
+ * DPoP (RFC 9449) sender-constrained tokens, on when bootstrap `auth.dpop` is true. Tokens are
+ * bound to a P-256 key pair generated as non-extractable and kept in IndexedDB, so a stolen
+ * token cookie is useless without this browser's key. Every token endpoint and authenticated
+ * API request carries a `DPoP` proof JWT signed with that key.
+ *
+ * Servers may demand a nonce (`use_dpop_nonce` with a `DPoP-Nonce` header); the request is
+ * retried once with it and the nonce is reused for that origin. Cross-origin servers have to
+ * expose `DPoP-Nonce` (Access-Control-Expose-Headers) for this to work. The BFF keeps its own
+ * tokens, so DPoP is off there.
+ */
+
+const DB_NAME = 'synaptagrid_auth';
+const STORE_NAME = 'dpop_keys';
+const KEY_ID = 'current';
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+// Last nonce each server gave us, by origin.
+const nonces = new Map<string, string>();
+// Only when IndexedDB is unavailable (e.g. some private windows): the key lives for this tab.
+let memoryKeyPair: CryptoKeyPair | null = null;
+
+export function isDpopEnabled(config: BootstrapConfig | null = getBootstrapConfig()): boolean {
+  if (config?.auth?.dpop !== true || config.auth.token_storage === 'bff') return false;
+  return typeof window !== 'undefined' && Boolean(window.crypto?.subtle);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openKeyDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+  return requestToPromise(request);
+}
+
+async function withKeyStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openKeyDatabase();
+  try {
+    return await requestToPromise(fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } finally {
+    db.close();
+  }
+}
+
+function generateKeyPair(): Promise<CryptoKeyPair> {
+  // Non-extractable: the private key can sign but can never be read back out, even by our own code.
+  return window.crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+}
+
+/** This browser's DPoP key pair, created on first use. Shared by all tabs through IndexedDB. */
+async function getKeyPair(): Promise<CryptoKeyPair> {
+  if (memoryKeyPair) return memoryKeyPair;
+  try {
+    const stored = await withKeyStore<CryptoKeyPair | undefined>('readonly', (store) => store.get(KEY_ID));
+    if (stored) return stored;
+    const keyPair = await generateKeyPair();
+    try {
+      await withKeyStore('readwrite', (store) => store.add(keyPair, KEY_ID));
+      return keyPair;
+    } catch {
+      // Another tab stored its key first; use that one so both tabs' tokens stay bound to it.
+      const winner = await withKeyStore<CryptoKeyPair | undefined>('readonly', (store) => store.get(KEY_ID));
+      if (winner) return winner;
+      throw new Error('DPoP key could not be stored');
+    }
+  } catch (err) {
+    console.warn('[Auth] IndexedDB unavailable; DPoP key will not outlive this tab', err);
+    memoryKeyPair = await generateKeyPair();
+    return memoryKeyPair;
+  }
+}
+
+async function getPublicJwk(keyPair: CryptoKeyPair): Promise<JsonWebKey> {
+  // Public keys stay exportable even when the pair was generated non-extractable.
+  const { kty, crv, x, y } = await window.crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  return { kty, crv, x, y };
+}
+
+async function sha256Base64Url(value: string): Promise<string> {
+  return bytesToBase64Url(await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+}
+
+/** JWK SHA-256 thumbprint (RFC 7638) of the public key, for `dpop_jkt` on the authorize request. */
+export async function getDpopJwkThumbprint(): Promise<string> {
+  const { crv, kty, x, y } = await getPublicJwk(await getKeyPair());
+  // Required members only, in lexicographic order.
+  return sha256Base64Url(JSON.stringify({ crv, kty, x, y }));
+}
+
+function getOrigin(url: string): string {
+  return new URL(url, window.location.href).origin;
+}
+
+/** A DPoP proof JWT for one request. `accessToken` adds the `ath` hash for resource requests. */
+export async function createDpopProof(method: string, url: string, accessToken: string | null = null): Promise<string> {
+  const keyPair = await getKeyPair();
+  const target = new URL(url, window.location.href);
+  const header = { typ: 'dpop+jwt', alg: 'ES256', jwk: await getPublicJwk(keyPair) };
+  const payload: Record<string, string | number> = {
+    jti: window.crypto.randomUUID?.() ?? bytesToBase64Url(window.crypto.getRandomValues(new Uint8Array(16))),
+    htm: method.toUpperCase(),
+    // htu excludes query and fragment.
+    htu: `${target.origin}${target.pathname}`,
+    iat: Math.floor(Date.now() / 1000),
+  };
+  const nonce = nonces.get(target.origin);
+  if (nonce) payload.nonce = nonce;
+  if (accessToken) payload.ath = await sha256Base64Url(accessToken);
+  const signingInput = `${bytesToBase64Url(JSON.stringify(header))}.${bytesToBase64Url(JSON.stringify(payload))}`;
+  // WebCrypto ECDSA signatures are already raw r||s, the form JWS uses.
+  const signature = await window.crypto.subtle.sign(SIGN_ALGORITHM, keyPair.privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${bytesToBase64Url(signature)}`;
+}
+
+/** `DPoP` for tokens bound to a key; `Bearer` when DPoP is off or the server issued an unbound JWT. */
+function getAuthorizationScheme(accessToken: string): 'DPoP' | 'Bearer' {
+  if (!isDpopEnabled()) return 'Bearer';
+  const claims = decodeJwt(accessToken);
+  // Opaque tokens can't be checked; assume the server honoured the proof.
+  return claims && !claims.cnf ? 'Bearer' : 'DPoP';
+}
+
+/** Whether the server rejected the proof for a missing or stale nonce (token endpoint 400 or resource 401). */
+async function isNonceChallenge(response: Response): Promise<boolean> {
+  if (!response.headers.get('DPoP-Nonce')) return false;
+  if (response.status === 401) {
+    return /use_dpop_nonce/.test(response.headers.get('WWW-Authenticate') ?? '');
+  }
+  if (response.status !== 400) return false;
+  try {
+    const body = (await response.clone().json()) as { error?: unknown };
+    return body.error === 'use_dpop_nonce';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * fetch() with a DPoP proof (and, with `accessToken`, `Authorization: DPoP ...`), retried once
+ * when the server asks for a nonce. With DPoP off this is fetch() with a Bearer header.
+ */
+export async function dpopFetch(url: string, init: RequestInit = {}, accessToken: string | null = null): Promise<Response> {
+  const send = async () => {
+    const headers = new Headers(init.headers);
+    if (accessToken) {
+      headers.set('Authorization', `${getAuthorizationScheme(accessToken)} ${accessToken}`);
+    }
+    if (isDpopEnabled()) {
+      headers.set('DPoP', await createDpopProof(init.method ?? 'GET', url, accessToken));
+    }
+    const response = await fetch(url, { ...init, headers });
+    const nonce = response.headers.get('DPoP-Nonce');
+    if (nonce) nonces.set(getOrigin(url), nonce);
+    return response;
+  };
+  const response = await send();
+  if (isDpopEnabled() && (await isNonceChallenge(response))) {
+    return send();
+  }
+  return response;
+}
+
+/** Forget the key pair (sign-out), so the next session is bound to a fresh key. */
+export async function clearDpopKey(): Promise<void> {
+  memoryKeyPair = null;
+  nonces.clear();
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await withKeyStore('readwrite', (store) => store.delete(KEY_ID));
+  } catch {
+    /* ignore */
+  }
+}
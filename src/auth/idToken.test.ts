@@ -0,0 +1,165 @@
+import type { BootstrapConfig } from '../contexts/BootstrapContext';
+import { bytesToBase64Url } from './jwt';
+
+const ISSUER = 'https://idp.example.com';
+const CLIENT_ID = 'marketing-site';
+const JWKS_URI = `${ISSUER}/jwks`;
+const NOW = Math.floor(Date.UTC(2026, 0, 1) / 1000);
+
+let mockConfig: BootstrapConfig | null = null;
+
+jest.mock('../contexts/BootstrapContext', () => ({
+  getBootstrapConfig: () => mockConfig,
+}));
+jest.mock('./oidcDiscovery', () => ({
+  getProviderMetadata: async () => ({ issuer: 'https://idp.example.com', jwks_uri: 'https://idp.example.com/jwks' }),
+}));
+
+type IdTokenModule = typeof import('./idToken');
+
+let keyPair: CryptoKeyPair;
+let publicJwk: JsonWebKey;
+let fetchMock: jest.Mock;
+let nowMs: number;
+
+/** A fresh copy of the module, so each test starts with an empty JWKS cache. */
+function loadIdToken(): IdTokenModule {
+  let mod: IdTokenModule | undefined;
+  jest.isolateModules(() => {
+    mod = require('./idToken');
+  });
+  return mod!;
+}
+
+function validClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return { iss: ISSUER, aud: CLIENT_ID, sub: 'user-1', nonce: 'n-1', iat: NOW, exp: NOW + 300, ...overrides };
+}
+
+async function signJwt(claims: Record<string, unknown>, header: Record<string, unknown> = { alg: 'RS256', kid: 'k1' }): Promise<string> {
+  const input = `${bytesToBase64Url(JSON.stringify(header))}.${bytesToBase64Url(JSON.stringify(claims))}`;
+  const signature = await window.crypto.subtle.sign('RSASSA-PKCS1-v1_5', keyPair.privateKey, new TextEncoder().encode(input));
+  return `${input}.${bytesToBase64Url(signature)}`;
+}
+
+function serveJwks(...kids: string[]): void {
+  fetchMock.mockImplementation(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => ({ keys: kids.map((kid) => ({ ...publicJwk, kid, use: 'sig', alg: 'RS256' })) }),
+  }));
+}
+
+beforeAll(async () => {
+  keyPair = await window.crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify']
+  );
+  publicJwk = await window.crypto.subtle.exportKey('jwk', keyPair.publicKey);
+});
+
+beforeEach(() => {
+  mockConfig = { auth_provider: { issuer: ISSUER, client_id: CLIENT_ID } } as BootstrapConfig;
+  nowMs = NOW * 1000;
+  jest.spyOn(Date, 'now').mockImplementation(() => nowMs);
+  fetchMock = jest.fn();
+  global.fetch = fetchMock;
+  serveJwks('k1');
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('validateIdToken', () => {
+  it('returns the claims of a valid token', async () => {
+    const { validateIdToken } = loadIdToken();
+    const claims = await validateIdToken(await signJwt(validClaims()), { nonce: 'n-1' });
+    expect(claims.sub).toBe('user-1');
+    expect(fetchMock).toHaveBeenCalledWith(JWKS_URI, { credentials: 'omit' });
+  });
+
+  it('skips the nonce check when no nonce was sent', async () => {
+    const { validateIdToken } = loadIdToken();
+    await expect(validateIdToken(await signJwt(validClaims({ nonce: undefined })), { nonce: null })).resolves.toBeTruthy();
+  });
+
+  it.each([
+    ['a wrong issuer', { iss: 'https://evil.example.com' }, 'issuer_mismatch'],
+    ['a wrong audience', { aud: 'other-app' }, 'audience_mismatch'],
+    ['an azp for another client', { aud: [CLIENT_ID, 'other-app'], azp: 'other-app' }, 'audience_mismatch'],
+    ['an expired token', { exp: NOW - 60 }, 'expired'],
+    ['a token without exp', { exp: undefined }, 'expired'],
+    ['a token from the future', { iat: NOW + 300, nbf: NOW + 300 }, 'not_yet_valid'],
+    ['a nonce mismatch', { nonce: 'n-other' }, 'nonce_mismatch'],
+  ])('rejects %s', async (_, overrides, code) => {
+    const { validateIdToken } = loadIdToken();
+    await expect(validateIdToken(await signJwt(validClaims(overrides)), { nonce: 'n-1' })).rejects.toMatchObject({ code });
+  });
+
+  it('accepts an issuer that differs only by a trailing slash', async () => {
+    const { validateIdToken } = loadIdToken();
+    await expect(validateIdToken(await signJwt(validClaims({ iss: `${ISSUER}/` })), { nonce: 'n-1' })).resolves.toBeTruthy();
+  });
+
+  it('accepts an expiry within the clock skew', async () => {
+    const { validateIdToken } = loadIdToken();
+    await expect(validateIdToken(await signJwt(validClaims({ exp: NOW - 10 })), { nonce: 'n-1' })).resolves.toBeTruthy();
+  });
+
+  it('rejects a tampered payload', async () => {
+    const { validateIdToken } = loadIdToken();
+    const [header, , signature] = (await signJwt(validClaims())).split('.');
+    const forged = `${header}.${bytesToBase64Url(JSON.stringify(validClaims({ sub: 'admin' })))}.${signature}`;
+    await expect(validateIdToken(forged, { nonce: 'n-1' })).rejects.toMatchObject({ code: 'bad_signature' });
+  });
+
+  it.each(['none', 'HS256'])('rejects alg %s without fetching keys', async (alg) => {
+    const { validateIdToken } = loadIdToken();
+    const [, payload] = (await signJwt(validClaims())).split('.');
+    const token = `${bytesToBase64Url(JSON.stringify({ alg, kid: 'k1' }))}.${payload}.${alg === 'none' ? '' : 'c2ln'}`;
+    await expect(validateIdToken(token, { nonce: 'n-1' })).rejects.toMatchObject({ code: 'unsupported_alg' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['two segments', 'abc.def'],
+    ['an undecodable header', 'abc.def.ghi'],
+  ])('rejects a malformed token: %s', async (_, token) => {
+    const { validateIdToken } = loadIdToken();
+    await expect(validateIdToken(token, { nonce: 'n-1' })).rejects.toMatchObject({ code: 'malformed' });
+  });
+
+  it('fails with config_missing without an issuer or client id', async () => {
+    mockConfig = { auth_provider: { issuer: ISSUER } } as BootstrapConfig;
+    const { validateIdToken } = loadIdToken();
+    await expect(validateIdToken(await signJwt(validClaims()), { nonce: 'n-1' })).rejects.toMatchObject({ code: 'config_missing' });
+  });
+
+  it('reports an unreachable JWKS', async () => {
+    fetchMock.mockImplementation(async () => ({ ok: false, status: 503, json: async () => ({}) }));
+    const { validateIdToken } = loadIdToken();
+    await expect(validateIdToken(await signJwt(validClaims()), { nonce: 'n-1' })).rejects.toMatchObject({ code: 'jwks_unavailable' });
+  });
+
+  it('refetches the JWKS for an unknown kid at most every 30 seconds', async () => {
+    const { validateIdToken } = loadIdToken();
+    await validateIdToken(await signJwt(validClaims()), { nonce: 'n-1' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const rotated = await signJwt(validClaims(), { alg: 'RS256', kid: 'k2' });
+    nowMs += 10_000;
+    await expect(validateIdToken(rotated, { nonce: 'n-1' })).rejects.toMatchObject({ code: 'key_not_found' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // The IdP has published the new key by now.
+    serveJwks('k1', 'k2');
+    nowMs += 25_000;
+    await expect(validateIdToken(rotated, { nonce: 'n-1' })).resolves.toBeTruthy();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a kid the IdP never published after refetching', async () => {
+    const { validateIdToken } = loadIdToken();
+    const token = await signJwt(validClaims(), { alg: 'RS256', kid: 'unknown' });
+    await expect(validateIdToken(token, { nonce: 'n-1' })).rejects.toMatchObject({ code: 'key_not_found' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,213 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import {
+  base64UrlToBytes,
+  decodeJwt,
+  decodeJwtHeader,
+  hasAudience,
+  isJwtExpired,
+  isJwtNotYetValid,
+} from './jwt';
+import type { JwtClaims } from './jwt';
+import { getProviderMetadata } from './oidcDiscovery';
+
+/**
+ * Client-side id_token validation before we hand the token to AuthN
+ * (/v1/authn/bootstrap/from-id-token): signature against the `jwks_uri` (bootstrap or discovery),
+ * then `iss`, `aud`/`azp` = client_id, `exp`/`nbf` and the `nonce` we sent.
+ * JWKS are cached in memory and refetched when an unknown `kid` shows up (key rotation).
+ */
+
+export type IdTokenValidationErrorCode =
+  | 'malformed'
+  | 'unsupported_alg'
+  | 'jwks_unavailable'
+  | 'key_not_found'
+  | 'bad_signature'
+  | 'issuer_mismatch'
+  | 'audience_mismatch'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'nonce_mismatch'
+  | 'config_missing';
+
+export class IdTokenValidationError extends Error {
+  code: IdTokenValidationErrorCode;
+
+  constructor(code: IdTokenValidationErrorCode, message: string) {
+    super(message);
+    this.name = 'IdTokenValidationError';
+    this.code = code;
+  }
+}
+
+type Jwk = JsonWebKey & { kid?: string; use?: string; alg?: string };
+
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+// Don't hammer the IdP when a token carries a kid it never published.
+const JWKS_MIN_REFETCH_MS = 30 * 1000;
+
+let jwksCache: { uri: string; keys: Jwk[]; fetchedAtMs: number } | null = null;
+let jwksInflight: Promise<Jwk[]> | null = null;
+
+type VerifyAlgorithm = {
+  kty: string;
+  importParams: RsaHashedImportParams | EcKeyImportParams;
+  verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+};
+
+function getVerifyAlgorithm(alg: string): VerifyAlgorithm | null {
+  switch (alg) {
+    case 'RS256':
+    case 'RS384':
+    case 'RS512': {
+      const hash = `SHA-${alg.slice(2)}`;
+      return {
+        kty: 'RSA',
+        importParams: { name: 'RSASSA-PKCS1-v1_5', hash },
+        verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+      };
+    }
+    case 'PS256':
+    case 'PS384':
+    case 'PS512': {
+      const bits = Number(alg.slice(2));
+      return {
+        kty: 'RSA',
+        importParams: { name: 'RSA-PSS', hash: `SHA-${bits}` },
+        verifyParams: { name: 'RSA-PSS', saltLength: bits / 8 },
+      };
+    }
+    case 'ES256':
+    case 'ES384':
+    case 'ES512': {
+      const bits = alg.slice(2);
+      const namedCurve = bits === '512' ? 'P-521' : `P-${bits}`;
+      return {
+        kty: 'EC',
+        importParams: { name: 'ECDSA', namedCurve },
+        verifyParams: { name: 'ECDSA', hash: `SHA-${bits}` },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+async function fetchJwks(uri: string): Promise<Jwk[]> {
+  if (jwksInflight) return jwksInflight;
+  jwksInflight = (async () => {
+    try {
+      const res = await fetch(uri, { credentials: 'omit' });
+      if (!res.ok) {
+        throw new Error(`JWKS request failed (${res.status})`);
+      }
+      const data = (await res.json()) as { keys?: Jwk[] };
+      const keys = Array.isArray(data.keys) ? data.keys : [];
+      jwksCache = { uri, keys, fetchedAtMs: Date.now() };
+      return keys;
+    } catch (err) {
+      console.error('[OIDC] Failed to load JWKS', { uri, error: err });
+      throw new IdTokenValidationError('jwks_unavailable', 'Could not load signing keys to verify sign-in. Please try again.');
+    } finally {
+      jwksInflight = null;
+    }
+  })();
+  return jwksInflight;
+}
+
+function findKey(keys: Jwk[], kid: string | undefined, kty: string): Jwk | null {
+  const candidates = keys.filter((k) => k.kty === kty && (!k.use || k.use === 'sig'));
+  if (kid) {
+    return candidates.find((k) => k.kid === kid) ?? null;
+  }
+  // No kid in the header: only unambiguous when the set has a single signing key.
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+async function getSigningKey(uri: string, kid: string | undefined, kty: string): Promise<Jwk> {
+  const now = Date.now();
+  const cached = jwksCache && jwksCache.uri === uri ? jwksCache : null;
+  if (cached && now - cached.fetchedAtMs < JWKS_CACHE_TTL_MS) {
+    const key = findKey(cached.keys, kid, kty);
+    if (key) return key;
+    if (now - cached.fetchedAtMs < JWKS_MIN_REFETCH_MS) {
+      throw new IdTokenValidationError('key_not_found', 'Sign-in token was signed with an unknown key.');
+    }
+  }
+  // Missing, stale, or the kid rotated since we cached: refetch once.
+  const keys = await fetchJwks(uri);
+  const key = findKey(keys, kid, kty);
+  if (!key) {
+    throw new IdTokenValidationError('key_not_found', 'Sign-in token was signed with an unknown key.');
+  }
+  return key;
+}
+
+async function verifySignature(idToken: string, alg: string, kid: string | undefined, jwksUri: string): Promise<void> {
+  const algorithm = getVerifyAlgorithm(alg);
+  if (!algorithm) {
+    throw new IdTokenValidationError('unsupported_alg', `Unsupported id_token algorithm: ${alg}`);
+  }
+  const subtle = window.crypto?.subtle;
+  if (!subtle) {
+    throw new IdTokenValidationError('unsupported_alg', 'This browser cannot verify sign-in tokens (WebCrypto unavailable).');
+  }
+  const jwk = await getSigningKey(jwksUri, kid, algorithm.kty);
+  const [header, payload, signature] = idToken.split('.');
+  let valid = false;
+  try {
+    const key = await subtle.importKey('jwk', jwk, algorithm.importParams, false, ['verify']);
+    valid = await subtle.verify(
+      algorithm.verifyParams,
+      key,
+      base64UrlToBytes(signature),
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+  } catch (err) {
+    console.error('[OIDC] id_token signature check failed', err);
+  }
+  if (!valid) {
+    throw new IdTokenValidationError('bad_signature', 'Sign-in token signature is invalid.');
+  }
+}
+
+/**
+ * Validate an id_token and return its claims. Pass the nonce we sent in the authorize
+ * request; when it is null (AuthN social flows start without one) the nonce check is skipped.
+ */
+export async function validateIdToken(idToken: string, { nonce }: { nonce: string | null }): Promise<JwtClaims> {
+  const config = getBootstrapConfig();
+  const provider = config?.auth_provider;
+  const jwksUri = provider ? (await getProviderMetadata())?.jwks_uri : undefined;
+  if (!jwksUri || !provider?.issuer || !provider.client_id) {
+    throw new IdTokenValidationError('config_missing', 'Sign-in verification is not configured. Check bootstrap config.');
+  }
+
+  const header = decodeJwtHeader(idToken);
+  const claims = decodeJwt(idToken);
+  if (!header || !claims || idToken.split('.').length !== 3) {
+    throw new IdTokenValidationError('malformed', 'Sign-in token is malformed.');
+  }
+
+  await verifySignature(idToken, header.alg, header.kid, jwksUri);
+
+  if (claims.iss?.replace(/\/$/, '') !== provider.issuer.replace(/\/$/, '')) {
+    throw new IdTokenValidationError('issuer_mismatch', 'Sign-in token was issued by an unexpected provider.');
+  }
+  if (!hasAudience(claims, provider.client_id)) {
+    throw new IdTokenValidationError('audience_mismatch', 'Sign-in token was issued for a different application.');
+  }
+  if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp && claims.azp !== provider.client_id) {
+    throw new IdTokenValidationError('audience_mismatch', 'Sign-in token was issued for a different application.');
+  }
+  if (typeof claims.exp !== 'number' || isJwtExpired(idToken)) {
+    throw new IdTokenValidationError('expired', 'Sign-in token has expired. Please sign in again.');
+  }
+  if (isJwtNotYetValid(claims)) {
+    throw new IdTokenValidationError('not_yet_valid', 'Sign-in token is not valid yet. Check your device clock.');
+  }
+  if (nonce !== null && claims.nonce !== nonce) {
+    throw new IdTokenValidationError('nonce_mismatch', 'Sign-in response does not match this request. Please try again.');
+  }
+  return claims;
+}
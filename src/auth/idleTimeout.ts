@@ -0,0 +1,146 @@
+import type { BootstrapConfig } from '../contexts/BootstrapContext';
+import { getTokenStore } from './tokenStore';
+
+/**
+ * Idle tracking for the signed-in session.
+ *
+ * Keyboard, pointer, scroll and tab-visibility activity is recorded as a timestamp in
+ * localStorage, so every open tab measures idleness from the most recent activity in any
+ * of them and shows (or dismisses) the warning at the same moment. Once the warning is up,
+ * only an explicit "Stay signed in" counts as activity.
+ */
+
+export type IdleSettings = {
+  idleTimeoutMs: number;
+  warningMs: number;
+};
+
+export type IdleState = { phase: 'active' } | { phase: 'warning'; signOutAtMs: number };
+
+const LAST_ACTIVITY_KEY = 'synaptagrid_last_activity_ms';
+const DEFAULT_WARNING_SECONDS = 120;
+const ACTIVITY_WRITE_THROTTLE_MS = 5000;
+const TICK_MS = 1000;
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'touchstart', 'wheel', 'scroll'] as const;
+
+/** Idle limits from bootstrap, or null when the tenant has no idle timeout. */
+export function getIdleSettings(config: BootstrapConfig | null): IdleSettings | null {
+  const timeoutSeconds = config?.session?.idle_timeout_seconds ?? 0;
+  if (!timeoutSeconds || timeoutSeconds <= 0) return null;
+  const warningSeconds = config?.session?.idle_warning_seconds ?? DEFAULT_WARNING_SECONDS;
+  // Never warn for longer than half the idle window.
+  const boundedWarningSeconds = Math.max(0, Math.min(warningSeconds, timeoutSeconds / 2));
+  return { idleTimeoutMs: timeoutSeconds * 1000, warningMs: boundedWarningSeconds * 1000 };
+}
+
+function readSharedActivityMs(): number {
+  try {
+    const value = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+    return Number.isFinite(value) ? value : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeSharedActivityMs(atMs: number): void {
+  try {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(atMs));
+  } catch {
+    /* ignore */
+  }
+}
+
+function hasSession(): boolean {
+  return getTokenStore().hasSession() === true;
+}
+
+export type IdleMonitor = {
+  /** Count as activity even while the warning is showing (the "Stay signed in" path). */
+  extend: () => void;
+  stop: () => void;
+};
+
+/**
+ * Watch for inactivity while signed in. `onChange` fires when the warning appears or is
+ * dismissed (here or in another tab); `onTimeout` fires once the idle limit is reached.
+ */
+export function startIdleMonitor(
+  settings: IdleSettings,
+  { onChange, onTimeout }: { onChange: (state: IdleState) => void; onTimeout: () => void }
+): IdleMonitor {
+  let stopped = false;
+  let warning = false;
+  let lastActivityMs = Date.now();
+  let lastWriteMs = 0;
+
+  const record = (force: boolean) => {
+    const now = Date.now();
+    lastActivityMs = now;
+    if (force || now - lastWriteMs >= ACTIVITY_WRITE_THROTTLE_MS) {
+      lastWriteMs = now;
+      writeSharedActivityMs(now);
+    }
+  };
+
+  const evaluate = () => {
+    if (stopped) return;
+    if (!hasSession()) {
+      // Signed out (or never signed in): nothing to time out; restart the clock for the next login.
+      lastActivityMs = Date.now();
+      if (warning) {
+        warning = false;
+        onChange({ phase: 'active' });
+      }
+      return;
+    }
+    const latestActivityMs = Math.max(lastActivityMs, readSharedActivityMs());
+    const signOutAtMs = latestActivityMs + settings.idleTimeoutMs;
+    const now = Date.now();
+    if (now >= signOutAtMs) {
+      stopped = true;
+      onTimeout();
+      return;
+    }
+    const shouldWarn = now >= signOutAtMs - settings.warningMs;
+    if (shouldWarn !== warning) {
+      warning = shouldWarn;
+      onChange(shouldWarn ? { phase: 'warning', signOutAtMs } : { phase: 'active' });
+    }
+  };
+
+  const onActivity = () => {
+    if (!warning) record(false);
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      // Check first so coming back after the limit still signs out.
+      evaluate();
+      onActivity();
+    }
+  };
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === LAST_ACTIVITY_KEY) evaluate();
+  };
+
+  record(true);
+  ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, onActivity, { passive: true }));
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  window.addEventListener('storage', onStorage);
+  const tickInterval = setInterval(evaluate, TICK_MS);
+
+  return {
+    extend: () => {
+      record(true);
+      evaluate();
+    },
+    stop: () => {
+      stopped = true;
+      clearInterval(tickInterval);
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, onActivity));
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('storage', onStorage);
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import {
+  base64UrlDecode,
+  base64UrlToBytes,
+  bytesToBase64Url,
+  decodeJwt,
+  decodeJwtHeader,
+  getJwtExpiresAtMs,
+  getJwtTimeToExpiryMs,
+  isJwtExpired,
+  isJwtNotYetValid,
+} from './jwt';
+
+const NOW_MS = Date.UTC(2026, 0, 1);
+const NOW = NOW_MS / 1000;
+
+function makeJwt(claims: Record<string, unknown>, header: Record<string, unknown> = { alg: 'RS256', typ: 'JWT' }): string {
+  return `${bytesToBase64Url(JSON.stringify(header))}.${bytesToBase64Url(JSON.stringify(claims))}.signature`;
+}
+
+describe('base64url', () => {
+  it.each(['a', 'ab', 'abc', 'abcd'])('round-trips %p without padding', (value) => {
+    const encoded = bytesToBase64Url(value);
+    expect(encoded).not.toContain('=');
+    expect(base64UrlDecode(encoded)).toBe(value);
+  });
+
+  it('uses the URL-safe alphabet', () => {
+    const bytes = new Uint8Array([0xfb, 0xff, 0xbf]);
+    expect(bytesToBase64Url(bytes)).toBe('-_-_');
+    expect(Array.from(base64UrlToBytes('-_-_'))).toEqual([0xfb, 0xff, 0xbf]);
+  });
+
+  it('decodes UTF-8', () => {
+    expect(base64UrlDecode(bytesToBase64Url('Zoë Łukasz 日本'))).toBe('Zoë Łukasz 日本');
+  });
+
+  it('throws on characters outside the alphabet', () => {
+    expect(() => base64UrlToBytes('a$b')).toThrow();
+  });
+});
+
+describe('decodeJwt', () => {
+  it('decodes header and claims', () => {
+    const token = makeJwt({ sub: 'u1', name: 'José Müller' }, { alg: 'ES256', kid: 'k1' });
+    expect(decodeJwtHeader(token)).toEqual({ alg: 'ES256', kid: 'k1' });
+    expect(decodeJwt(token)).toEqual({ sub: 'u1', name: 'José Müller' });
+  });
+
+  it('decodes payloads whose base64url form needs - and _', () => {
+    // Runs of '?' and '>' encode to '/' and '+' in standard base64.
+    const token = makeJwt({ a: '?>>', b: '???' });
+    expect(token.split('.')[1]).toMatch(/[-_]/);
+    expect(decodeJwt(token)).toEqual({ a: '?>>', b: '???' });
+  });
+
+  it.each([
+    ['an empty string', ''],
+    ['a single segment', 'abc'],
+    ['an empty payload', 'abc..sig'],
+    ['a payload that is not base64url', 'abc.$$$.sig'],
+    ['a payload that is not JSON', `abc.${bytesToBase64Url('not json')}.sig`],
+    ['a payload that is not an object', `abc.${bytesToBase64Url('42')}.sig`],
+    ['a null payload', `abc.${bytesToBase64Url('null')}.sig`],
+  ])('returns null for %s', (_, token) => {
+    expect(decodeJwt(token)).toBeNull();
+  });
+});
+
+describe('expiry', () => {
+  it('reads exp in milliseconds', () => {
+    const token = makeJwt({ exp: NOW + 60 });
+    expect(getJwtExpiresAtMs(token)).toBe((NOW + 60) * 1000);
+    expect(getJwtTimeToExpiryMs(token, NOW_MS)).toBe(60_000);
+  });
+
+  it('returns null without a numeric exp', () => {
+    expect(getJwtExpiresAtMs(makeJwt({}))).toBeNull();
+    expect(getJwtExpiresAtMs(makeJwt({ exp: '1700000000' }))).toBeNull();
+    expect(getJwtTimeToExpiryMs('garbage', NOW_MS)).toBeNull();
+  });
+
+  it('allows the clock skew past exp', () => {
+    const token = makeJwt({ exp: NOW - 10 });
+    expect(isJwtExpired(token, 30, NOW_MS)).toBe(false);
+    expect(isJwtExpired(token, 10, NOW_MS)).toBe(true);
+    expect(isJwtExpired(token, 0, NOW_MS)).toBe(true);
+  });
+
+  it('treats a token still inside its lifetime as valid', () => {
+    expect(isJwtExpired(makeJwt({ exp: NOW + 1 }), 0, NOW_MS)).toBe(false);
+  });
+
+  it('counts undecodable tokens as expired and tokens without exp as not', () => {
+    expect(isJwtExpired('not.a.jwt', 30, NOW_MS)).toBe(true);
+    expect(isJwtExpired(makeJwt({ sub: 'u1' }), 30, NOW_MS)).toBe(false);
+  });
+
+  it('rejects nbf and iat in the future beyond the skew', () => {
+    expect(isJwtNotYetValid({ nbf: NOW + 20 }, 30, NOW_MS)).toBe(false);
+    expect(isJwtNotYetValid({ nbf: NOW + 40 }, 30, NOW_MS)).toBe(true);
+    expect(isJwtNotYetValid({ iat: NOW + 40 }, 30, NOW_MS)).toBe(true);
+    // nbf wins over iat when both are present.
+    expect(isJwtNotYetValid({ nbf: NOW, iat: NOW + 40 }, 30, NOW_MS)).toBe(false);
+    expect(isJwtNotYetValid({}, 30, NOW_MS)).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * JWT helpers (decode only; signature checks belong to the server or the id_token validator).
+ * Payloads are base64url (`-`/`_`, no padding) and UTF-8, so plain `atob` + `JSON.parse`
+ * is not enough for tokens with non-ASCII names or URL-safe characters.
+ */
+
+/** Tolerance for clocks that disagree with the IdP (seconds). */
+export const DEFAULT_CLOCK_SKEW_SECONDS = 30;
+
+export type JwtHeader = {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  [param: string]: unknown;
+};
+
+export type JwtClaims = {
+  // Registered claims (RFC 7519)
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  // OIDC
+  azp?: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  // SynaptaGrid (AuthN enriched tokens)
+  user_guid?: string;
+  org_guid?: string;
+  org_slug?: string;
+  org_name?: string;
+  role?: string;
+  roles?: string[];
+  [claim: string]: unknown;
+};
+
+/** Decode a base64url segment to raw bytes. Throws on malformed input. */
+export function base64UrlToBytes(segment: string): Uint8Array {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/** Encode raw bytes (or a UTF-8 string) as an unpadded base64url segment. */
+export function bytesToBase64Url(input: ArrayBuffer | Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : new Uint8Array(input);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Decode a base64url segment to a UTF-8 string. Throws on malformed input. */
+export function base64UrlDecode(segment: string): string {
+  return new TextDecoder().decode(base64UrlToBytes(segment));
+}
+
+function decodeSegment<T>(token: string, index: number): T | null {
+  const segment = token.split('.')[index];
+  if (!segment) return null;
+  try {
+    const value = JSON.parse(base64UrlDecode(segment));
+    return value && typeof value === 'object' ? (value as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function decodeJwtHeader(token: string): JwtHeader | null {
+  return decodeSegment<JwtHeader>(token, 0);
+}
+
+/** Decode the payload without verifying it. Returns null for anything that isn't a JWT. */
+export function decodeJwt(token: string): JwtClaims | null {
+  return decodeSegment<JwtClaims>(token, 1);
+}
+
+/** Expiry (`exp`) in epoch milliseconds, or null when missing or undecodable. */
+export function getJwtExpiresAtMs(token: string): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+}
+
+/** Milliseconds until expiry (negative once expired), or null when the token has no `exp`. */
+export function getJwtTimeToExpiryMs(token: string, nowMs = Date.now()): number | null {
+  const expiresAtMs = getJwtExpiresAtMs(token);
+  return expiresAtMs === null ? null : expiresAtMs - nowMs;
+}
+
+/**
+ * Whether the token is expired, allowing `skewSeconds` of clock difference.
+ * Undecodable tokens count as expired; tokens without `exp` do not.
+ */
+export function isJwtExpired(token: string, skewSeconds = DEFAULT_CLOCK_SKEW_SECONDS, nowMs = Date.now()): boolean {
+  const claims = decodeJwt(token);
+  if (!claims) return true;
+  if (typeof claims.exp !== 'number') return false;
+  return claims.exp * 1000 + skewSeconds * 1000 <= nowMs;
+}
+
+/** Whether `nbf`/`iat` put the token in the future beyond the allowed skew. */
+export function isJwtNotYetValid(claims: JwtClaims, skewSeconds = DEFAULT_CLOCK_SKEW_SECONDS, nowMs = Date.now()): boolean {
+  const notBefore = typeof claims.nbf === 'number' ? claims.nbf : claims.iat;
+  return typeof notBefore === 'number' && notBefore * 1000 - skewSeconds * 1000 > nowMs;
+}
+
+export function hasAudience(claims: JwtClaims, audience: string): boolean {
+  return Array.isArray(claims.aud) ? claims.aud.includes(audience) : claims.aud === audience;
+}
+
+/** Best display name from standard claims, falling back to the email's local part. */
+export function getDisplayNameFromClaims(claims: JwtClaims | null): string | null {
+  if (!claims) return null;
+  return claims.name ?? claims.preferred_username ?? claims.email?.split('@')[0] ?? null;
+}
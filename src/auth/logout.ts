@@ -0,0 +1,74 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import { postAuthMessage, subscribeToAuthMessages } from './authChannel';
+import { clearDpopKey } from './dpop';
+import { getProviderMetadata } from './oidcDiscovery';
+import { getProviderAdapter } from './providerAdapters';
+import { clearStoredSession, getStoredIdToken } from './session';
+import { getTokenStore } from './tokenStore';
+
+/**
+ * Sign-out: clears the token store (cookies, memory or BFF session) and this tab's session state,
+ * tells other open tabs to drop to the signed-out nav, then ends the IdP session via
+ * the end_session_endpoint from bootstrap or discovery (RP-initiated logout) when there is one.
+ */
+
+function getPostLogoutRedirectUri(): string {
+  return `${window.location.origin}/`;
+}
+
+/**
+ * Build the IdP end-session URL (see the provider adapter), or null when there is none.
+ * `endSessionEndpoint` defaults to bootstrap; logout() passes the discovered one.
+ */
+export function buildEndSessionUrl(
+  idToken: string | null,
+  accessToken: string | null = null,
+  endSessionEndpoint = getBootstrapConfig()?.auth_provider?.end_session_endpoint
+): string | null {
+  const provider = getBootstrapConfig()?.auth_provider;
+  if (!provider) return null;
+  return getProviderAdapter(provider.provider_type).buildLogoutUrl({
+    endpoint: endSessionEndpoint?.trim() ?? '',
+    idToken,
+    accessToken,
+    postLogoutRedirectUri: getPostLogoutRedirectUri(),
+    provider,
+  });
+}
+
+/**
+ * Listen for sign-out in other tabs. The listener runs after this tab's session state
+ * has been cleared. Returns an unsubscribe function.
+ */
+export function subscribeToLogout(listener: () => void): () => void {
+  return subscribeToAuthMessages((message) => {
+    if (message.type !== 'logout') return;
+    clearStoredSession();
+    // Shared stores (cookies, BFF) were cleared by the tab that signed out; memory is per tab.
+    const store = getTokenStore();
+    if (store.kind === 'memory') void store.clear();
+    listener();
+  });
+}
+
+/** Drop the session locally (token store, this tab's state) and tell other tabs; no redirect. */
+export async function endLocalSession(): Promise<void> {
+  // Cookie and memory stores clear synchronously, before other tabs hear about it.
+  const cleared = getTokenStore().clear();
+  clearStoredSession();
+  postAuthMessage({ type: 'logout' });
+  await cleared;
+  // The next session gets tokens bound to a new DPoP key.
+  await clearDpopKey();
+}
+
+/** Sign out everywhere and redirect to the IdP end-session endpoint (or the site root). */
+export async function logout(): Promise<void> {
+  const idToken = getStoredIdToken();
+  const accessToken = getTokenStore().getAccessToken();
+  await endLocalSession();
+  const metadata = await getProviderMetadata();
+  const endSessionUrl = buildEndSessionUrl(idToken, accessToken, metadata?.end_session_endpoint);
+  console.log('[Auth] Signing out', { endSession: Boolean(endSessionUrl) });
+  window.location.assign(endSessionUrl ?? getPostLogoutRedirectUri());
+}
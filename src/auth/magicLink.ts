@@ -0,0 +1,139 @@
+import { getAuthnBaseUrl } from '../api/usersAccounts';
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import type { BootstrapConfig } from '../contexts/BootstrapContext';
+import { AuthError, authErrorFromResponse } from './authErrors';
+import { dpopFetch } from './dpop';
+import type { CredentialsLoginResponse } from './oidc';
+import { withReturnTo } from './returnTo';
+
+/**
+ * Passwordless email sign-in, on when bootstrap `auth.magic_link` is true. AuthN emails a
+ * one-time link to `/auth/magic#token=...` (REACT_APP_AUTHN_MAGIC_LINK_PATH, default
+ * /v1/authn/magic-link, sends it; `{path}/redeem` trades the token for the same response as a
+ * password sign-in). The token is taken out of the address bar before it is redeemed.
+ */
+
+export type MagicLinkRequestResult = {
+  /** Seconds until another link may be requested for this email. */
+  resendAfterSeconds: number;
+};
+
+const COOLDOWN_KEY = 'synaptagrid_magic_link_cooldowns';
+// When AuthN doesn't say how long to wait before resending.
+const DEFAULT_RESEND_SECONDS = 60;
+
+function getMagicLinkUrl(suffix = ''): string {
+  const path = process.env.REACT_APP_AUTHN_MAGIC_LINK_PATH || '/v1/authn/magic-link';
+  return `${getAuthnBaseUrl()}${path}${suffix}`;
+}
+
+export function isMagicLinkEnabled(config: BootstrapConfig | null = getBootstrapConfig()): boolean {
+  return config?.auth?.magic_link === true;
+}
+
+function readCooldowns(): Record<string, number> {
+  try {
+    const value = JSON.parse(sessionStorage.getItem(COOLDOWN_KEY) ?? '{}');
+    return value && typeof value === 'object' ? (value as Record<string, number>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Seconds left before another link may be sent to `email` (0 when it may be sent now). */
+export function getMagicLinkCooldownSeconds(email: string): number {
+  const until = readCooldowns()[email.trim().toLowerCase()] ?? 0;
+  return Math.max(0, Math.ceil((until - Date.now()) / 1000));
+}
+
+function startCooldown(email: string, seconds: number): void {
+  // Kept for the tab so a reload can't be used to skip the wait.
+  const cooldowns = readCooldowns();
+  cooldowns[email.trim().toLowerCase()] = Date.now() + seconds * 1000;
+  try {
+    sessionStorage.setItem(COOLDOWN_KEY, JSON.stringify(cooldowns));
+  } catch {
+    /* ignore */
+  }
+}
+
+/**
+ * Ask AuthN to email a sign-in link that comes back to `/auth/magic` (and then `returnTo`).
+ * AuthN answers the same whether or not the email has an account. Rejects with AuthError.
+ */
+export async function requestMagicLink(
+  email: string,
+  { captchaToken, returnTo }: { captchaToken?: string | null; returnTo?: string | null } = {}
+): Promise<MagicLinkRequestResult> {
+  const remaining = getMagicLinkCooldownSeconds(email);
+  if (remaining > 0) {
+    throw new AuthError('rate_limited', `Wait ${remaining} seconds before requesting another link.`);
+  }
+  const config = getBootstrapConfig();
+  const body: { email: string; redirect_url: string; client_id?: string; hostname?: string; captcha_token?: string } = {
+    email: email.trim(),
+    redirect_url: withReturnTo(`${window.location.origin}/auth/magic`, returnTo ?? null),
+  };
+  if (config?.auth_provider?.client_id) body.client_id = config.auth_provider.client_id;
+  if (window.location?.hostname) body.hostname = window.location.hostname;
+  if (captchaToken?.trim()) body.captcha_token = captchaToken.trim();
+
+  const res = await fetch(getMagicLinkUrl(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'omit',
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    throw await authErrorFromResponse(res, 'server_error');
+  }
+  let resendAfterSeconds = DEFAULT_RESEND_SECONDS;
+  try {
+    const data = (await res.json()) as { resend_after_seconds?: unknown };
+    if (typeof data.resend_after_seconds === 'number' && data.resend_after_seconds > 0) {
+      resendAfterSeconds = data.resend_after_seconds;
+    }
+  } catch {
+    /* empty body */
+  }
+  startCooldown(email, resendAfterSeconds);
+  return { resendAfterSeconds };
+}
+
+/**
+ * Read the link token from the URL (`#token=`, or `?token=` from older emails) and remove it,
+ * keeping return_to. Call before any network request on the magic-link page.
+ */
+export function consumeMagicLinkToken(): string | null {
+  const hashToken = new URLSearchParams(window.location.hash.slice(1)).get('token');
+  const search = new URLSearchParams(window.location.search);
+  const token = hashToken ?? search.get('token');
+  if (!token) return null;
+  search.delete('token');
+  const query = search.toString();
+  try {
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  } catch {
+    window.location.hash = '';
+  }
+  return token;
+}
+
+/** Trade a link token for tokens (one use only). Rejects with AuthError. */
+export async function redeemMagicLink(token: string): Promise<CredentialsLoginResponse> {
+  const res = await dpopFetch(getMagicLinkUrl('/redeem'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'omit',
+    body: JSON.stringify({ token }),
+  });
+  if (!res.ok) {
+    const error = await authErrorFromResponse(res, 'invalid_state');
+    if (error.code === 'invalid_state' || error.code === 'invalid_token' || error.code === 'unknown') {
+      // The usual case: expired, already used, or opened from an older email. Sends the user back to request another.
+      throw new AuthError('invalid_state', 'This sign-in link has expired or was already used. Request a new one.', res.status);
+    }
+    throw error;
+  }
+  return (await res.json()) as CredentialsLoginResponse;
+}
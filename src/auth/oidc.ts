@@ -1,10 +1,21 @@
 import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import { validateIdToken } from './idToken';
+import { base64UrlDecode, bytesToBase64Url } from './jwt';
+import { buildAuthCallbackUrl, sanitizeReturnPath } from './returnTo';
+import { getSafeRedirectUrl } from './redirectAllowList';
+import { AuthError, authErrorFromResponse } from './authErrors';
+import { dpopFetch, getDpopJwkThumbprint, isDpopEnabled } from './dpop';
+import { filterSupportedScopes, getPreferredPkceMethod, getProviderMetadata, requireProviderEndpoint } from './oidcDiscovery';
+import type { OidcProviderMetadata } from './oidcDiscovery';
+import { getProviderAdapter } from './providerAdapters';
+import type { ProviderAdapter, ProviderConfig } from './providerAdapters';
 
 type AuthMode = 'login' | 'register';
 
 export type TokenResponse = {
   access_token: string;
-  id_token: string;
+  /** Absent for IdPs without OIDC id_tokens (WorkOS). */
+  id_token?: string;
   expires_in: number;
   refresh_token?: string;
   refresh_expires_in?: number;
@@ -25,6 +36,7 @@ function getOidcClientId(): string {
 
 const STORAGE_STATE_KEY = 'synaptagrid_oidc_state';
 const STORAGE_VERIFIER_KEY = 'synaptagrid_oidc_verifier';
+const STORAGE_NONCE_KEY = 'synaptagrid_oidc_nonce';
 
 /** Redirect URI from bootstrap only (AuthN central callback; final app URL is in state). */
 function getRedirectUri(): string {
@@ -54,15 +66,6 @@ function randomString(size = 32) {
   return result;
 }
 
-function base64UrlEncode(buffer: ArrayBuffer) {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  bytes.forEach((byte) => {
-    binary += String.fromCharCode(byte);
-  });
-  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-}
-
 async function sha256(value: string) {
   const cryptoObj = window.crypto;
   if (!cryptoObj || !cryptoObj.subtle) {
@@ -71,32 +74,84 @@ async function sha256(value: string) {
 
   const encoded = new TextEncoder().encode(value);
   const digest = await cryptoObj.subtle.digest('SHA-256', encoded);
-  return { challenge: base64UrlEncode(digest), method: 'S256' as const };
+  return { challenge: bytesToBase64Url(digest), method: 'S256' as const };
+}
+
+/**
+ * IdP routing hints for the authorize request. Values left undefined fall back to the
+ * tenant-level hints in bootstrap auth_provider (kc_idp_hint, workos_*).
+ */
+export type AuthHints = {
+  loginHint?: string;
+  domainHint?: string;
+  kcIdpHint?: string;
+  workosConnectionId?: string;
+  workosOrganizationId?: string;
+};
+
+// Bootstrap `flow` values this SPA runs as is: the authorization code flow, always with PKCE.
+const SUPPORTED_FLOWS = ['', 'pkce', 'code', 'authorization_code'];
+
+/** Scope from bootstrap (or the adapter default), minus scopes the provider's discovery document doesn't list. */
+function getConfiguredScope(provider: ProviderConfig | undefined, adapter: ProviderAdapter, metadata: OidcProviderMetadata | null): string {
+  return filterSupportedScopes(provider?.scope?.trim() || adapter.defaultScope, metadata);
+}
+
+/**
+ * Scope for a new authorize request. Other (or legacy) bootstrap flows are logged and run as
+ * code + PKCE anyway, the only flow this SPA can finish.
+ */
+function getRequestedScope(provider: ProviderConfig | undefined, adapter: ProviderAdapter, metadata: OidcProviderMetadata | null): string {
+  const responseType = provider?.response_type?.trim() || 'code';
+  const flow = provider?.flow?.trim().toLowerCase() ?? '';
+  if (responseType !== 'code' || !SUPPORTED_FLOWS.includes(flow)) {
+    console.warn('[OIDC] Unsupported sign-in flow in bootstrap; using the authorization code flow with PKCE', {
+      flow: provider?.flow,
+      responseType,
+    });
+  }
+  return getConfiguredScope(provider, adapter, metadata);
 }
 
 function buildAuthParams({
   mode,
   state,
+  nonce,
   codeChallenge,
+  hints,
+  redirectUri,
+  prompt,
+  scope,
 }: {
   mode: AuthMode;
   state: string;
+  nonce: string;
   codeChallenge: string;
+  hints?: AuthHints;
+  redirectUri: string;
+  prompt?: string;
+  scope: string;
 }) {
+  const provider = getBootstrapConfig()?.auth_provider;
+  const adapter = getProviderAdapter(provider?.provider_type);
   const params = new URLSearchParams({
     client_id: getOidcClientId(),
-    redirect_uri: getRedirectUri(),
+    redirect_uri: redirectUri,
     response_type: 'code',
-    scope: 'openid email profile',
     code_challenge: codeChallenge,
     code_challenge_method: 'S256',
     state,
+    nonce,
   });
-
-  if (mode === 'register') {
-    params.set('prompt', 'login');
+  if (scope) {
+    params.set('scope', scope);
+  }
+  if (prompt) {
+    params.set('prompt', prompt);
+  }
+  if (provider) {
+    adapter.applyAuthorizeParams(params, { mode, hints, provider, prompt });
   }
-
   return params;
 }
 
@@ -106,160 +161,250 @@ export function getAuthRedirectUrl() {
 
 type LoginResponse = { authorization_url: string };
 
-async function fetchAuthUrl(provider: 'google' | 'github' | 'twitter' | 'microsoft', returnUrl: string): Promise<string> {
+async function fetchAuthUrl(provider: string, returnUrl: string): Promise<string> {
+  if (!/^[a-z0-9][a-z0-9_-]*$/i.test(provider)) {
+    throw new Error('Unknown sign-in provider.');
+  }
   const config = getBootstrapConfig();
   const authnUrl = (config?.services?.authn_url ?? '').replace(/\/$/, '');
   if (!authnUrl) {
-    throw new Error('AuthN URL not configured');
+    throw new AuthError('config_missing', 'AuthN URL not configured');
   }
-  const url = `${authnUrl}/v1/authn/login/${provider}?return_url=${encodeURIComponent(returnUrl)}`;
+  const safeReturnUrl = getSafeRedirectUrl(returnUrl, buildAuthCallbackUrl(null));
+  const url = `${authnUrl}/v1/authn/login/${provider}?return_url=${encodeURIComponent(safeReturnUrl)}`;
   const res = await fetch(url, { credentials: 'include' });
   if (!res.ok) {
-    const text = await res.text();
-    console.error('[Auth] Social login failed', { provider, status: res.status, responseText: text });
-    let userMessage = 'Sign-in is not available right now. Try another option or contact your administrator.';
-    if (text) {
-      try {
-        const json = JSON.parse(text) as { message?: string; detail?: string };
-        const msg = json.message ?? json.detail;
-        if (typeof msg === 'string' && msg.length < 300) userMessage = msg;
-      } catch {
-        if (text.length < 300) userMessage = text;
-      }
-    }
-    throw new Error(userMessage);
+    const error = await authErrorFromResponse(res, 'provider_unavailable');
+    console.error('[Auth] Social login failed', { provider, status: res.status, code: error.code, message: error.message });
+    throw error;
   }
   const data: LoginResponse = await res.json();
   if (!data?.authorization_url) {
-    throw new Error('Invalid response from auth service');
+    throw new AuthError('provider_unavailable', 'Invalid response from auth service');
   }
   return data.authorization_url;
 }
 
 /**
- * Fetch Google login URL from AuthN and redirect. Use when bootstrap has social_providers including "google".
+ * Fetch the social login URL for `providerId` (any id from bootstrap social_providers) from AuthN and redirect.
  */
-export async function redirectToGoogle(returnUrl: string): Promise<void> {
-  const authorizationUrl = await fetchAuthUrl('google', returnUrl);
+export async function redirectToSocialProvider(providerId: string, returnUrl: string): Promise<void> {
+  const authorizationUrl = await fetchAuthUrl(providerId, returnUrl);
   window.location.href = authorizationUrl;
 }
 
 /**
- * Fetch GitHub login URL from AuthN and redirect. Use when bootstrap has social_providers including "github".
+ * OIDC `state`: a random value plus the (validated) path to return to after sign-in,
+ * base64url-encoded JSON. The whole string is still compared against sessionStorage.
  */
-export async function redirectToGitHub(returnUrl: string): Promise<void> {
-  const authorizationUrl = await fetchAuthUrl('github', returnUrl);
-  window.location.href = authorizationUrl;
+function encodeState(returnTo: string | null): string {
+  const payload = JSON.stringify({ n: randomString(16), r: returnTo ?? undefined });
+  return bytesToBase64Url(payload);
 }
 
-/**
- * Fetch X (Twitter) login URL from AuthN and redirect. Use when bootstrap has social_providers including "twitter".
- */
-export async function redirectToTwitter(returnUrl: string): Promise<void> {
-  const authorizationUrl = await fetchAuthUrl('twitter', returnUrl);
-  window.location.href = authorizationUrl;
+/** Return path carried in an OIDC `state` from startAuthRedirect (sanitized again on the way out). */
+export function getReturnPathFromState(state: string | null): string | null {
+  if (!state) return null;
+  try {
+    const payload = JSON.parse(base64UrlDecode(state)) as { r?: unknown };
+    return typeof payload.r === 'string' ? sanitizeReturnPath(payload.r) : null;
+  } catch {
+    return null;
+  }
 }
 
+/** A ready-to-send authorize request plus the PKCE/nonce secrets needed to finish it. */
+export type AuthorizeRequest = {
+  url: string;
+  state: string;
+  nonce: string;
+  verifier: string;
+  redirectUri: string;
+};
+
 /**
- * Fetch Microsoft login URL from AuthN and redirect. Use when bootstrap has social_providers including "microsoft".
+ * Build the PKCE authorize request. `redirectUri` defaults to the bootstrap (AuthN central)
+ * callback; `prompt` overrides the mode default (e.g. `none` for silent sign-in).
  */
-export async function redirectToMicrosoft(returnUrl: string): Promise<void> {
-  const authorizationUrl = await fetchAuthUrl('microsoft', returnUrl);
-  window.location.href = authorizationUrl;
-}
-
-export async function startAuthRedirect(mode: AuthMode) {
-  const state = randomString(16);
+export async function createAuthorizeRequest(
+  mode: AuthMode,
+  {
+    hints,
+    returnTo,
+    prompt,
+    redirectUri = getRedirectUri(),
+  }: { hints?: AuthHints; returnTo?: string | null; prompt?: string; redirectUri?: string } = {}
+): Promise<AuthorizeRequest> {
+  const state = encodeState(sanitizeReturnPath(returnTo));
+  const nonce = randomString(16);
   const verifier = randomString(64);
-  const { challenge, method } = await sha256(verifier);
-
-  sessionStorage.setItem(STORAGE_STATE_KEY, state);
-  sessionStorage.setItem(STORAGE_VERIFIER_KEY, verifier);
 
-  const config = getBootstrapConfig();
-  const AUTH_ENDPOINT = config?.auth_provider?.authorization_endpoint ?? '';
+  // Bootstrap endpoints first; anything missing comes from the issuer's discovery document.
+  const metadata = await getProviderMetadata();
+  const AUTH_ENDPOINT = metadata?.authorization_endpoint ?? '';
   if (!AUTH_ENDPOINT) {
-    throw new Error('Authorization endpoint not available. Check bootstrap config.');
+    throw new AuthError('config_missing', 'Authorization endpoint not available. Check bootstrap config.');
   }
-  
-  const params = buildAuthParams({ mode, state, codeChallenge: challenge });
+  const { challenge, method } =
+    getPreferredPkceMethod(metadata) === 'plain' ? { challenge: verifier, method: 'plain' as const } : await sha256(verifier);
+
+  const provider = getBootstrapConfig()?.auth_provider;
+  const scope = getRequestedScope(provider, getProviderAdapter(provider?.provider_type), metadata);
+  const params = buildAuthParams({ mode, state, nonce, codeChallenge: challenge, hints, redirectUri, prompt, scope });
   params.set('code_challenge_method', method);
-  
-  console.log('[OIDC] Redirecting to auth endpoint:', AUTH_ENDPOINT);
-  window.location.assign(`${AUTH_ENDPOINT}?${params.toString()}`);
+  if (isDpopEnabled()) {
+    // Binds the authorization code to our DPoP key (RFC 9449 section 10).
+    params.set('dpop_jkt', await getDpopJwkThumbprint());
+  }
+  const separator = AUTH_ENDPOINT.includes('?') ? '&' : '?';
+  return { url: `${AUTH_ENDPOINT}${separator}${params.toString()}`, state, nonce, verifier, redirectUri };
 }
 
-export async function exchangeCodeForTokens({
+export async function startAuthRedirect(
+  mode: AuthMode,
+  { hints, returnTo }: { hints?: AuthHints; returnTo?: string | null } = {}
+) {
+  const request = await createAuthorizeRequest(mode, { hints, returnTo });
+
+  sessionStorage.setItem(STORAGE_STATE_KEY, request.state);
+  sessionStorage.setItem(STORAGE_VERIFIER_KEY, request.verifier);
+  sessionStorage.setItem(STORAGE_NONCE_KEY, request.nonce);
+
+  console.log('[OIDC] Redirecting to auth endpoint:', request.url.split('?')[0]);
+  window.location.assign(request.url);
+}
+
+/**
+ * Redeem an authorization code at the token endpoint and validate the returned id_token
+ * against `nonce`. Callers check `state` first.
+ */
+export async function exchangeAuthorizationCode({
   code,
-  state,
+  verifier,
+  nonce,
+  redirectUri = getRedirectUri(),
 }: {
   code: string;
-  state: string;
-}) {
-  const expectedState = sessionStorage.getItem(STORAGE_STATE_KEY);
-  const verifier = sessionStorage.getItem(STORAGE_VERIFIER_KEY);
-
-  if (!expectedState || expectedState !== state || !verifier) {
-    throw new Error('Invalid auth state');
-  }
-
+  verifier: string;
+  nonce: string;
+  redirectUri?: string;
+}): Promise<TokenResponse> {
   const config = getBootstrapConfig();
-  const TOKEN_ENDPOINT = config?.auth_provider?.token_endpoint ?? '';
-  if (!TOKEN_ENDPOINT) {
-    throw new Error('Token endpoint not available. Check bootstrap config.');
-  }
+  const TOKEN_ENDPOINT = await requireProviderEndpoint('token_endpoint');
 
-  const body = new URLSearchParams({
+  const adapter = getProviderAdapter(config?.auth_provider?.provider_type);
+  const { headers, body } = adapter.encodeTokenRequest({
     grant_type: 'authorization_code',
     client_id: getOidcClientId(),
     code,
-    redirect_uri: getRedirectUri(),
+    redirect_uri: redirectUri,
     code_verifier: verifier,
   });
 
   console.log('[OIDC] Exchanging code for tokens at:', TOKEN_ENDPOINT);
 
-  const response = await fetch(TOKEN_ENDPOINT, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body,
-  });
+  const response = await dpopFetch(TOKEN_ENDPOINT, { method: 'POST', headers, body });
 
   if (!response.ok) {
-    throw new Error('Token exchange failed');
+    throw await authErrorFromResponse(response, 'token_exchange_failed');
   }
 
-  const data = (await response.json()) as TokenResponse;
+  const data = adapter.parseTokenResponse((await response.json()) as Record<string, unknown>);
+  // With the openid scope an id_token is mandatory; a missing one fails validation too.
+  const scope = getConfiguredScope(config?.auth_provider, adapter, await getProviderMetadata());
+  if (data.id_token !== undefined || /\bopenid\b/.test(scope)) {
+    await validateIdToken(data.id_token ?? '', { nonce });
+  }
   return data;
 }
 
-export async function refreshAccessToken(refreshToken: string): Promise<TokenResponse> {
+export async function exchangeCodeForTokens({
+  code,
+  state,
+}: {
+  code: string;
+  state: string;
+}) {
+  const expectedState = sessionStorage.getItem(STORAGE_STATE_KEY);
+  const verifier = sessionStorage.getItem(STORAGE_VERIFIER_KEY);
+
+  if (!expectedState || expectedState !== state || !verifier) {
+    throw new AuthError('invalid_state', 'This sign-in response does not match a sign-in started in this tab.');
+  }
+
+  // One-time use: a replayed callback must not find the same state/verifier again.
+  sessionStorage.removeItem(STORAGE_STATE_KEY);
+  sessionStorage.removeItem(STORAGE_VERIFIER_KEY);
+  return exchangeAuthorizationCode({ code, verifier, nonce: consumeOidcNonce() ?? '' });
+}
+
+/**
+ * Take (and forget) the nonce stored by startAuthRedirect. Null when this tab didn't
+ * start an OIDC redirect, e.g. AuthN social sign-in.
+ */
+export function consumeOidcNonce(): string | null {
+  const nonce = sessionStorage.getItem(STORAGE_NONCE_KEY);
+  sessionStorage.removeItem(STORAGE_NONCE_KEY);
+  return nonce;
+}
+
+/**
+ * Token refresh failure. `code` is the OAuth `error` from the token endpoint (null for
+ * network failures, status 0). Only `invalid_grant` means the refresh token is dead;
+ * everything else is worth retrying.
+ */
+export class TokenRefreshError extends Error {
+  status: number;
+  code: string | null;
+
+  constructor(message: string, status: number, code: string | null = null) {
+    super(message);
+    this.name = 'TokenRefreshError';
+    this.status = status;
+    this.code = code;
+  }
+
+  get isInvalidGrant(): boolean {
+    return this.code === 'invalid_grant';
+  }
+}
+
+/** Refresh grant at the token endpoint. `extraParams` go alongside it (e.g. `organization` to switch orgs). */
+export async function refreshAccessToken(refreshToken: string, extraParams: Record<string, string> = {}): Promise<TokenResponse> {
   const config = getBootstrapConfig();
-  const TOKEN_ENDPOINT = config?.auth_provider?.token_endpoint ?? '';
+  const TOKEN_ENDPOINT = (await getProviderMetadata())?.token_endpoint ?? '';
   if (!TOKEN_ENDPOINT) {
     throw new Error('Token endpoint not available.');
   }
   
-  const body = new URLSearchParams({
+  const adapter = getProviderAdapter(config?.auth_provider?.provider_type);
+  const { headers, body } = adapter.encodeTokenRequest({
+    ...extraParams,
     grant_type: 'refresh_token',
     client_id: getOidcClientId(),
     refresh_token: refreshToken,
   });
-  const response = await fetch(TOKEN_ENDPOINT, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body,
-  });
+  let response: Response;
+  try {
+    response = await dpopFetch(TOKEN_ENDPOINT, { method: 'POST', headers, body });
+  } catch {
+    throw new TokenRefreshError('Token refresh failed: network error', 0);
+  }
   if (!response.ok) {
-    throw new Error('Token refresh failed');
+    let code: string | null = null;
+    try {
+      const err = (await response.json()) as { error?: unknown };
+      if (typeof err.error === 'string') code = err.error;
+    } catch { /* not JSON */ }
+    throw new TokenRefreshError('Token refresh failed', response.status, code);
   }
-  const data = (await response.json()) as TokenResponse;
-  return data;
+  return adapter.parseTokenResponse((await response.json()) as Record<string, unknown>);
 }
 
 export type CredentialsLoginResponse = {
   access_token: string;
   refresh_token?: string;
+  refresh_expires_in?: number;
   token_type: string;
   expires_in: number;
   user_guid: string;
@@ -269,34 +414,90 @@ export type CredentialsLoginResponse = {
   org_name?: string;
 };
 
+export type CredentialsField = 'email' | 'password';
+
+/**
+ * Credentials sign-in failure. `field` is set when AuthN's `detail` points at a specific
+ * input (FastAPI validation `loc`, or a message about the email/password) so the form can
+ * show it inline; otherwise the message belongs at the top of the form.
+ */
+export class CredentialsLoginError extends Error {
+  status: number;
+  field: CredentialsField | null;
+
+  constructor(message: string, status: number, field: CredentialsField | null = null) {
+    super(message);
+    this.name = 'CredentialsLoginError';
+    this.status = status;
+    this.field = field;
+  }
+}
+
+type ValidationDetail = { loc?: (string | number)[]; msg?: string };
+
+function credentialsErrorFromDetail(status: number, detail: unknown): CredentialsLoginError {
+  const fallback = 'Sign-in failed. Check your email and password.';
+  if (Array.isArray(detail)) {
+    // FastAPI 422: [{ loc: ['body', 'email'], msg: '...' }]
+    for (const item of detail as ValidationDetail[]) {
+      const field = item?.loc?.[item.loc.length - 1];
+      if ((field === 'email' || field === 'password') && typeof item.msg === 'string') {
+        return new CredentialsLoginError(item.msg, status, field);
+      }
+    }
+    return new CredentialsLoginError(fallback, status);
+  }
+  if (typeof detail !== 'string' || !detail.trim() || detail.length >= 300) {
+    return new CredentialsLoginError(fallback, status);
+  }
+  const message = detail.trim();
+  const aboutEmail = /e-?mail|user not found|no account|unknown (user|account)/i.test(message);
+  const aboutPassword = /password/i.test(message);
+  // "Invalid credentials" or "email or password is wrong" blames neither input: top of the form.
+  if (aboutEmail && !aboutPassword) {
+    return new CredentialsLoginError(message, status, 'email');
+  }
+  if (aboutPassword && !aboutEmail) {
+    return new CredentialsLoginError(message, status, 'password');
+  }
+  return new CredentialsLoginError(message, status);
+}
+
 /**
  * Login with email + password via AuthN (no IdP page). AuthN authenticates
  * against the IdP server-side and returns enriched tokens.
  * Passes client_id and hostname from bootstrap so AuthN fetches IdP credentials from Control Plane.
+ * Throws CredentialsLoginError with the server `detail` mapped to a field where possible.
  */
-export async function loginWithCredentials(email: string, password: string): Promise<CredentialsLoginResponse> {
+export async function loginWithCredentials(
+  email: string,
+  password: string,
+  captchaToken?: string | null
+): Promise<CredentialsLoginResponse> {
   const config = getBootstrapConfig();
   const authnUrl = (config?.services?.authn_url ?? '').replace(/\/$/, '');
   if (!authnUrl) {
     throw new Error('AuthN service not available.');
   }
-  const body: { email: string; password: string; client_id?: string; hostname?: string } = { email, password };
+  const body: { email: string; password: string; client_id?: string; hostname?: string; captcha_token?: string } = {
+    email,
+    password,
+  };
   if (config?.auth_provider?.client_id) body.client_id = config.auth_provider.client_id;
   if (typeof window !== 'undefined' && window.location?.hostname) body.hostname = window.location.hostname;
-  const response = await fetch(`${authnUrl}/v1/authn/login/credentials`, {
+  if (captchaToken && captchaToken.trim()) body.captcha_token = captchaToken.trim();
+  const response = await dpopFetch(`${authnUrl}/v1/authn/login/credentials`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
   });
   if (!response.ok) {
-    let message = 'Sign-in failed. Check your email and password.';
+    let detail: unknown = null;
     try {
       const err = await response.json();
-      if (err.detail && typeof err.detail === 'string' && err.detail.length < 300) {
-        message = err.detail;
-      }
+      detail = err?.detail ?? err?.message ?? null;
     } catch { /* use default */ }
-    throw new Error(message);
+    throw credentialsErrorFromDetail(response.status, detail);
   }
   return (await response.json()) as CredentialsLoginResponse;
 }
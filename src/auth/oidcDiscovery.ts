@@ -0,0 +1,146 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import { AuthError } from './authErrors';
+
+/**
+ * OpenID Provider metadata (OIDC Discovery 1.0) from `{issuer}/.well-known/openid-configuration`,
+ * merged under the bootstrap `auth_provider` values (bootstrap wins where set). The document is
+ * fetched once per issuer and cached for the tab; one whose `issuer` differs from the configured
+ * issuer is rejected (Discovery 4.3). When discovery fails, bootstrap values are used alone.
+ */
+
+export type OidcProviderMetadata = {
+  issuer: string;
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  jwks_uri?: string;
+  scopes_supported?: string[];
+  response_types_supported?: string[];
+  grant_types_supported?: string[];
+  code_challenge_methods_supported?: string[];
+};
+
+export type ProviderEndpoint = 'authorization_endpoint' | 'token_endpoint' | 'userinfo_endpoint' | 'end_session_endpoint' | 'jwks_uri';
+
+const ENDPOINTS: ProviderEndpoint[] = ['authorization_endpoint', 'token_endpoint', 'userinfo_endpoint', 'end_session_endpoint', 'jwks_uri'];
+const CACHE_KEY = 'synaptagrid_oidc_discovery';
+const CACHE_TTL_MS = 60 * 60 * 1000;
+// A failed lookup is retried after this long rather than on every sign-in step.
+const FAILURE_RETRY_MS = 60 * 1000;
+
+type CachedDocument = { issuer: string; document: OidcProviderMetadata | null; fetchedAtMs: number };
+
+let memoryCache: CachedDocument | null = null;
+let inflight: { issuer: string; promise: Promise<OidcProviderMetadata | null> } | null = null;
+
+function normalizeIssuer(issuer: string): string {
+  return issuer.trim().replace(/\/+$/, '');
+}
+
+function isFresh(cached: CachedDocument, issuer: string): boolean {
+  const ttl = cached.document ? CACHE_TTL_MS : FAILURE_RETRY_MS;
+  return cached.issuer === issuer && Date.now() - cached.fetchedAtMs < ttl;
+}
+
+function readStoredDocument(issuer: string): CachedDocument | null {
+  try {
+    const raw = sessionStorage.getItem(CACHE_KEY);
+    const cached = raw ? (JSON.parse(raw) as CachedDocument) : null;
+    return cached?.document && isFresh(cached, issuer) ? cached : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeDocument(cached: CachedDocument): void {
+  try {
+    sessionStorage.setItem(CACHE_KEY, JSON.stringify(cached));
+  } catch {
+    /* ignore */
+  }
+}
+
+async function fetchDiscoveryDocument(issuer: string): Promise<OidcProviderMetadata | null> {
+  try {
+    const res = await fetch(`${issuer}/.well-known/openid-configuration`, { credentials: 'omit' });
+    if (!res.ok) {
+      console.warn('[OIDC] Discovery failed', { issuer, status: res.status });
+      return null;
+    }
+    const document = (await res.json()) as Partial<OidcProviderMetadata>;
+    if (typeof document.issuer !== 'string' || normalizeIssuer(document.issuer) !== issuer) {
+      console.error('[OIDC] Discovery document is for another issuer; ignoring it', { expected: issuer, actual: document.issuer });
+      return null;
+    }
+    return document as OidcProviderMetadata;
+  } catch (err) {
+    console.warn('[OIDC] Discovery unavailable', { issuer, error: err instanceof Error ? err.message : err });
+    return null;
+  }
+}
+
+function loadDiscoveryDocument(issuer: string): Promise<OidcProviderMetadata | null> {
+  if (memoryCache && isFresh(memoryCache, issuer)) return Promise.resolve(memoryCache.document);
+  const stored = readStoredDocument(issuer);
+  if (stored) {
+    memoryCache = stored;
+    return Promise.resolve(stored.document);
+  }
+  if (inflight?.issuer !== issuer) {
+    const promise = fetchDiscoveryDocument(issuer).then((document) => {
+      memoryCache = { issuer, document, fetchedAtMs: Date.now() };
+      if (document) storeDocument(memoryCache);
+      inflight = null;
+      return document;
+    });
+    inflight = { issuer, promise };
+  }
+  return inflight.promise;
+}
+
+function fromBootstrap(): OidcProviderMetadata | null {
+  const provider = getBootstrapConfig()?.auth_provider;
+  if (!provider) return null;
+  const metadata: OidcProviderMetadata = { issuer: normalizeIssuer(provider.issuer ?? '') };
+  ENDPOINTS.forEach((name) => {
+    const value = provider[name]?.trim();
+    if (value) metadata[name] = value;
+  });
+  return metadata;
+}
+
+/** Provider metadata: bootstrap values, with the gaps (and supported scopes/PKCE methods) from discovery. */
+export async function getProviderMetadata(): Promise<OidcProviderMetadata | null> {
+  const configured = fromBootstrap();
+  if (!configured?.issuer) return configured;
+  const discovered = await loadDiscoveryDocument(configured.issuer);
+  return discovered ? { ...discovered, ...configured } : configured;
+}
+
+/** An endpoint from bootstrap or discovery. Throws AuthError `config_missing` when neither has it. */
+export async function requireProviderEndpoint(name: ProviderEndpoint): Promise<string> {
+  const value = (await getProviderMetadata())?.[name];
+  if (!value) {
+    throw new AuthError('config_missing', `Sign-in provider ${name.replace(/_/g, ' ')} not available. Check bootstrap config.`);
+  }
+  return value;
+}
+
+/** S256 unless the provider says it only does `plain` (RFC 7636 4.2). */
+export function getPreferredPkceMethod(metadata: OidcProviderMetadata | null): 'S256' | 'plain' {
+  const methods = metadata?.code_challenge_methods_supported;
+  return Array.isArray(methods) && methods.length > 0 && !methods.includes('S256') && methods.includes('plain') ? 'plain' : 'S256';
+}
+
+/** `scope` without scopes the provider says it doesn't support (unchanged when it doesn't say). */
+export function filterSupportedScopes(scope: string, metadata: OidcProviderMetadata | null): string {
+  const supported = metadata?.scopes_supported;
+  if (!Array.isArray(supported) || supported.length === 0) return scope;
+  const requested = scope.split(/\s+/).filter(Boolean);
+  const kept = requested.filter((s) => s === 'openid' || supported.includes(s));
+  if (kept.length !== requested.length) {
+    console.warn('[OIDC] Dropping scopes the provider does not support', requested.filter((s) => !kept.includes(s)));
+  }
+  return kept.join(' ');
+}
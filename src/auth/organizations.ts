@@ -0,0 +1,43 @@
+import { postAuthMessage } from './authChannel';
+import { AuthError } from './authErrors';
+import { decodeJwt } from './jwt';
+import { refreshAccessToken, TokenRefreshError } from './oidc';
+import { mapProviderClaims } from './providerAdapters';
+import { withRefreshLock } from './refreshLock';
+import { getTokenStore } from './tokenStore';
+
+/**
+ * Switch the session to another organization the user belongs to: a refresh grant at the
+ * token endpoint with `organization`, so the IdP re-issues the tokens for that organization
+ * (org_* and role claims). Runs under the refresh lock so it can't race a refresh in another
+ * tab. Needs a refresh token in the SPA, so not available in BFF mode. Rejects with AuthError.
+ */
+export async function switchOrganization(orgGuid: string): Promise<void> {
+  await withRefreshLock(async () => {
+    const store = getTokenStore();
+    const refreshToken = store.getRefreshToken();
+    if (!refreshToken) {
+      throw new AuthError(
+        store.kind === 'bff' ? 'config_missing' : 'login_required',
+        'Switching organization needs a fresh sign-in. Sign in again to continue.'
+      );
+    }
+    let tokens;
+    try {
+      tokens = await refreshAccessToken(refreshToken, { organization: orgGuid });
+    } catch (err) {
+      if (err instanceof TokenRefreshError) {
+        throw new AuthError(err.isInvalidGrant ? 'login_required' : 'server_error', 'Could not switch organization. Try again.', err.status);
+      }
+      throw err;
+    }
+    // Stored either way: with rotation the old refresh token is already spent.
+    await store.setTokens(tokens);
+    // Other tabs pick up the new org claims like any refresh.
+    postAuthMessage({ type: 'tokens_refreshed' });
+    // IdPs that ignore the parameter hand back the same organization.
+    if (mapProviderClaims(decodeJwt(tokens.access_token))?.org_guid !== orgGuid) {
+      throw new AuthError('access_denied', 'Your identity provider did not switch the organization.');
+    }
+  });
+}
@@ -0,0 +1,216 @@
+import { getAuthnBaseUrl } from '../api/usersAccounts';
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import type { BootstrapConfig } from '../contexts/BootstrapContext';
+import { AuthError, authErrorFromResponse } from './authErrors';
+import { dpopFetch } from './dpop';
+import { base64UrlToBytes, bytesToBase64Url } from './jwt';
+import type { CredentialsLoginResponse } from './oidc';
+import { authFetch } from './tokenStore';
+
+/**
+ * Passkey (WebAuthn) sign-in and registration against AuthN, on when bootstrap
+ * `auth.passkeys` is true and the browser has WebAuthn. Each ceremony is two calls under
+ * REACT_APP_AUTHN_PASSKEY_PATH (default /v1/authn/passkeys):
+ *
+ * - `POST /authentication/options` `{ email? }` -> `{ ceremony_id, public_key }`, then
+ *   `POST /authentication/verify` `{ ceremony_id, credential }` -> the credentials sign-in response.
+ * - `POST /registration/options` and `/registration/verify` (same shapes, signed in) add a
+ *   passkey to the current user.
+ *
+ * `public_key` is the WebAuthn options JSON (binary fields base64url). To run the flow without
+ * AuthN, use `npm run mock:authn` and Chrome's virtual authenticator; see
+ * docs/passkeys-local-testing.md.
+ */
+
+type CredentialDescriptorJSON = { id: string; type: 'public-key'; transports?: AuthenticatorTransport[] };
+
+type RequestOptionsJSON = Omit<PublicKeyCredentialRequestOptions, 'challenge' | 'allowCredentials'> & {
+  challenge: string;
+  allowCredentials?: CredentialDescriptorJSON[];
+};
+
+type CreationOptionsJSON = Omit<PublicKeyCredentialCreationOptions, 'challenge' | 'user' | 'excludeCredentials'> & {
+  challenge: string;
+  user: { id: string; name: string; displayName: string };
+  excludeCredentials?: CredentialDescriptorJSON[];
+};
+
+type CeremonyOptions<T> = { ceremony_id: string; public_key: T };
+
+const PROMPTED_KEY = 'synaptagrid_passkey_prompted';
+
+function getPasskeyUrl(path: string): string {
+  const base = process.env.REACT_APP_AUTHN_PASSKEY_PATH || '/v1/authn/passkeys';
+  return `${getAuthnBaseUrl()}${base}${path}`;
+}
+
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function' && Boolean(navigator.credentials);
+}
+
+export function isPasskeyEnabled(config: BootstrapConfig | null = getBootstrapConfig()): boolean {
+  return config?.auth?.passkeys === true && isPasskeySupported();
+}
+
+/** Whether the browser can offer passkeys in the email field's autofill (conditional mediation). */
+export async function isPasskeyAutofillAvailable(): Promise<boolean> {
+  if (!isPasskeySupported()) return false;
+  const check = (window.PublicKeyCredential as unknown as { isConditionalMediationAvailable?: () => Promise<boolean> })
+    .isConditionalMediationAvailable;
+  try {
+    return check ? await check() : false;
+  } catch {
+    return false;
+  }
+}
+
+function toDescriptor({ id, type, transports }: CredentialDescriptorJSON): PublicKeyCredentialDescriptor {
+  return { id: base64UrlToBytes(id), type, transports };
+}
+
+function toRequestOptions(json: RequestOptionsJSON): PublicKeyCredentialRequestOptions {
+  return { ...json, challenge: base64UrlToBytes(json.challenge), allowCredentials: json.allowCredentials?.map(toDescriptor) };
+}
+
+function toCreationOptions(json: CreationOptionsJSON): PublicKeyCredentialCreationOptions {
+  return {
+    ...json,
+    challenge: base64UrlToBytes(json.challenge),
+    user: { ...json.user, id: base64UrlToBytes(json.user.id) },
+    excludeCredentials: json.excludeCredentials?.map(toDescriptor),
+  };
+}
+
+/** The credential as WebAuthn's toJSON() would serialize it (not every browser has toJSON yet). */
+function serializeCredential(credential: PublicKeyCredential): Record<string, unknown> {
+  const response = credential.response;
+  const serialized: Record<string, unknown> = { clientDataJSON: bytesToBase64Url(response.clientDataJSON) };
+  if (response instanceof AuthenticatorAssertionResponse) {
+    serialized.authenticatorData = bytesToBase64Url(response.authenticatorData);
+    serialized.signature = bytesToBase64Url(response.signature);
+    serialized.userHandle = response.userHandle ? bytesToBase64Url(response.userHandle) : null;
+  } else if (response instanceof AuthenticatorAttestationResponse) {
+    serialized.attestationObject = bytesToBase64Url(response.attestationObject);
+    serialized.transports = (response as { getTransports?: () => string[] }).getTransports?.() ?? [];
+  }
+  return {
+    id: credential.id,
+    rawId: bytesToBase64Url(credential.rawId),
+    type: credential.type,
+    authenticatorAttachment: (credential as { authenticatorAttachment?: string | null }).authenticatorAttachment ?? null,
+    response: serialized,
+    clientExtensionResults: credential.getClientExtensionResults(),
+  };
+}
+
+/** Cancelled by the user, timed out, or aborted by us: not an error worth showing. */
+function isCeremonyCancelled(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'AbortError');
+}
+
+async function postJson(url: string, body: unknown, signed: boolean): Promise<Response> {
+  const init: RequestInit = { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+  // Registration acts on the signed-in user; sign-in issues tokens, so they carry a DPoP proof when on.
+  return signed ? authFetch(url, init) : dpopFetch(url, { ...init, credentials: 'omit' });
+}
+
+async function requestOptions<T>(path: string, body: unknown, signed: boolean): Promise<CeremonyOptions<T>> {
+  const res = await postJson(getPasskeyUrl(path), body, signed);
+  if (!res.ok) {
+    throw await authErrorFromResponse(res, 'server_error');
+  }
+  return (await res.json()) as CeremonyOptions<T>;
+}
+
+/**
+ * Sign in with a passkey. `conditional` waits for the user to pick one from the email field's
+ * autofill instead of opening a dialog; abort it with `signal` before starting another ceremony.
+ * Resolves null when the user cancels. Rejects with AuthError.
+ */
+export async function signInWithPasskey({
+  email,
+  conditional = false,
+  signal,
+}: { email?: string; conditional?: boolean; signal?: AbortSignal } = {}): Promise<CredentialsLoginResponse | null> {
+  const options = await requestOptions<RequestOptionsJSON>('/authentication/options', email ? { email } : {}, false);
+  let credential: Credential | null;
+  try {
+    credential = await navigator.credentials.get({
+      publicKey: toRequestOptions(options.public_key),
+      // 'conditional' is missing from this TypeScript version's DOM types.
+      mediation: (conditional ? 'conditional' : 'optional') as CredentialMediationRequirement,
+      signal,
+    });
+  } catch (err) {
+    if (isCeremonyCancelled(err)) return null;
+    throw new AuthError('unknown', err instanceof Error ? err.message : 'Passkey sign-in failed.');
+  }
+  if (!(credential instanceof PublicKeyCredential)) return null;
+
+  const res = await postJson(
+    getPasskeyUrl('/authentication/verify'),
+    { ceremony_id: options.ceremony_id, credential: serializeCredential(credential) },
+    false
+  );
+  if (!res.ok) {
+    throw await authErrorFromResponse(res, 'access_denied');
+  }
+  const result = (await res.json()) as CredentialsLoginResponse;
+  markPasskeyPrompted(result.email);
+  return result;
+}
+
+/** Add a passkey for the signed-in user. Resolves false when the user cancels. Rejects with AuthError. */
+export async function registerPasskey(email: string): Promise<boolean> {
+  const options = await requestOptions<CreationOptionsJSON>('/registration/options', {}, true);
+  let credential: Credential | null;
+  try {
+    credential = await navigator.credentials.create({ publicKey: toCreationOptions(options.public_key) });
+  } catch (err) {
+    if (isCeremonyCancelled(err)) return false;
+    // InvalidStateError: this authenticator already holds a passkey for the user (excludeCredentials).
+    if (err instanceof DOMException && err.name === 'InvalidStateError') {
+      markPasskeyPrompted(email);
+      return true;
+    }
+    throw new AuthError('unknown', err instanceof Error ? err.message : 'Could not create a passkey.');
+  }
+  if (!(credential instanceof PublicKeyCredential)) return false;
+
+  const res = await postJson(
+    getPasskeyUrl('/registration/verify'),
+    { ceremony_id: options.ceremony_id, credential: serializeCredential(credential) },
+    true
+  );
+  if (!res.ok) {
+    throw await authErrorFromResponse(res, 'server_error');
+  }
+  markPasskeyPrompted(email);
+  return true;
+}
+
+function readPrompted(): string[] {
+  try {
+    const value = JSON.parse(localStorage.getItem(PROMPTED_KEY) ?? '[]');
+    return Array.isArray(value) ? value : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Whether to offer "create a passkey" after sign-in: not yet added, used or declined on this device. */
+export function shouldOfferPasskey(email: string | null | undefined): boolean {
+  return Boolean(email) && isPasskeyEnabled() && !readPrompted().includes(email!.toLowerCase());
+}
+
+/** Stop offering passkey creation to `email` on this device (added one, signed in with one, or said no). */
+export function markPasskeyPrompted(email: string | null | undefined): void {
+  if (!email) return;
+  try {
+    const prompted = new Set(readPrompted());
+    prompted.add(email.toLowerCase());
+    localStorage.setItem(PROMPTED_KEY, JSON.stringify(Array.from(prompted)));
+  } catch {
+    /* ignore */
+  }
+}
@@ -0,0 +1,189 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import type { BootstrapConfig } from '../contexts/BootstrapContext';
+import { decodeJwt } from './jwt';
+import type { JwtClaims } from './jwt';
+import type { AuthHints, TokenResponse } from './oidc';
+
+/**
+ * Per-IdP differences, keyed on bootstrap `auth_provider.provider_type`. oidc.ts builds the
+ * standard PKCE request and asks the adapter for what differs: authorize parameters, token
+ * request encoding and response shape, the logout URL, and how the IdP's claims map onto
+ * ours (org_guid, org_name, role, roles). Unknown types get the generic OIDC adapter.
+ */
+
+export type ProviderConfig = NonNullable<BootstrapConfig['auth_provider']>;
+
+export type AuthorizeParamsInput = {
+  mode: 'login' | 'register';
+  hints?: AuthHints;
+  provider: ProviderConfig;
+  /** Explicit `prompt` (already set on the params); adapters skip their register default then. */
+  prompt?: string;
+};
+
+export type LogoutUrlInput = {
+  /** end_session_endpoint from bootstrap or discovery (may be empty). */
+  endpoint: string;
+  idToken: string | null;
+  accessToken: string | null;
+  postLogoutRedirectUri: string;
+  provider: ProviderConfig;
+};
+
+export type ProviderAdapter = {
+  type: string;
+  /** Scope when bootstrap `auth_provider.scope` is empty ('' sends none). */
+  defaultScope: string;
+  /** Whether `prompt=none` (silent sign-in) works with this IdP. */
+  supportsPromptNone: boolean;
+  applyAuthorizeParams: (params: URLSearchParams, input: AuthorizeParamsInput) => void;
+  encodeTokenRequest: (params: Record<string, string>) => { headers: Record<string, string>; body: string };
+  /** Normalize the token endpoint response. `id_token` stays absent for IdPs that don't issue one. */
+  parseTokenResponse: (data: Record<string, unknown>) => TokenResponse;
+  /** RP-initiated logout URL, or null when the IdP session can't be ended from here. */
+  buildLogoutUrl: (input: LogoutUrlInput) => string | null;
+  mapClaims: (claims: JwtClaims) => JwtClaims;
+};
+
+function formEncodeTokenRequest(params: Record<string, string>) {
+  return {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params).toString(),
+  };
+}
+
+function setLoginHints(params: URLSearchParams, hints: AuthHints | undefined): void {
+  if (hints?.loginHint) params.set('login_hint', hints.loginHint);
+  if (hints?.domainHint) params.set('domain_hint', hints.domainHint);
+}
+
+function appendQuery(endpoint: string, params: URLSearchParams): string {
+  const separator = endpoint.includes('?') ? '&' : '?';
+  return `${endpoint}${separator}${params.toString()}`;
+}
+
+/** OIDC RP-Initiated Logout 1.0. */
+function buildOidcLogoutUrl({ endpoint, idToken, postLogoutRedirectUri, provider }: LogoutUrlInput): string | null {
+  if (!endpoint) return null;
+  const params = new URLSearchParams({ post_logout_redirect_uri: postLogoutRedirectUri });
+  if (idToken) {
+    params.set('id_token_hint', idToken);
+  }
+  if (provider.client_id) {
+    params.set('client_id', provider.client_id);
+  }
+  return appendQuery(endpoint, params);
+}
+
+/** Expiry from the access token when the response has no `expires_in`. */
+function getExpiresIn(data: Record<string, unknown>): number {
+  if (typeof data.expires_in === 'number') return data.expires_in;
+  const exp = typeof data.access_token === 'string' ? decodeJwt(data.access_token)?.exp : undefined;
+  return typeof exp === 'number' ? Math.max(0, Math.floor(exp - Date.now() / 1000)) : 3600;
+}
+
+const oidcAdapter: ProviderAdapter = {
+  type: 'oidc',
+  defaultScope: 'openid email profile',
+  supportsPromptNone: true,
+  applyAuthorizeParams: (params, { mode, hints, provider, prompt }) => {
+    if (!prompt && mode === 'register') params.set('prompt', 'login');
+    const kcIdpHint = hints?.kcIdpHint ?? provider.kc_idp_hint;
+    if (kcIdpHint) params.set('kc_idp_hint', kcIdpHint);
+    setLoginHints(params, hints);
+  },
+  encodeTokenRequest: formEncodeTokenRequest,
+  parseTokenResponse: (data) => ({ ...data, expires_in: getExpiresIn(data) }) as TokenResponse,
+  buildLogoutUrl: buildOidcLogoutUrl,
+  mapClaims: (claims) => {
+    // Keycloak puts realm roles under realm_access.
+    const realmRoles = (claims.realm_access as { roles?: unknown } | undefined)?.roles;
+    return !claims.roles && Array.isArray(realmRoles) ? { ...claims, roles: realmRoles.filter((r): r is string => typeof r === 'string') } : claims;
+  },
+};
+
+const auth0Adapter: ProviderAdapter = {
+  ...oidcAdapter,
+  type: 'auth0',
+  // Auth0 only issues refresh tokens for offline_access.
+  defaultScope: 'openid email profile offline_access',
+  applyAuthorizeParams: (params, { mode, hints, provider, prompt }) => {
+    if (!prompt && mode === 'register') params.set('screen_hint', 'signup');
+    // Without an audience Auth0 returns an opaque access token our APIs can't verify.
+    if (provider.audience) params.set('audience', provider.audience);
+    const connection = hints?.kcIdpHint ?? provider.kc_idp_hint;
+    if (connection) params.set('connection', connection);
+    setLoginHints(params, hints);
+  },
+  buildLogoutUrl: (input) => {
+    if (input.endpoint) return buildOidcLogoutUrl(input);
+    // Tenants without OIDC logout enabled only have the legacy /v2/logout.
+    const issuer = input.provider.issuer?.replace(/\/$/, '');
+    if (!issuer) return null;
+    return appendQuery(`${issuer}/v2/logout`, new URLSearchParams({ client_id: input.provider.client_id, returnTo: input.postLogoutRedirectUri }));
+  },
+  mapClaims: (claims) => {
+    // Auth0 Organizations use org_id; roles come from an Action as a namespaced custom claim.
+    const rolesKey = Object.keys(claims).find((key) => /^https?:\/\/.+\/roles$/.test(key));
+    const roles = rolesKey && Array.isArray(claims[rolesKey]) ? (claims[rolesKey] as string[]) : claims.roles;
+    return {
+      ...claims,
+      org_guid: claims.org_guid ?? (typeof claims.org_id === 'string' ? claims.org_id : undefined),
+      roles,
+      role: claims.role ?? roles?.[0],
+    };
+  },
+};
+
+const workosAdapter: ProviderAdapter = {
+  type: 'workos',
+  defaultScope: '',
+  supportsPromptNone: false,
+  applyAuthorizeParams: (params, { mode, hints, provider, prompt }) => {
+    if (!prompt && mode === 'register') params.set('screen_hint', 'sign-up');
+    // WorkOS routes on connection first, then organization.
+    const connectionId = hints?.workosConnectionId ?? provider.workos_connection_id;
+    const organizationId = hints?.workosOrganizationId ?? provider.workos_organization_id;
+    if (connectionId) {
+      params.set('connection', connectionId);
+    } else if (organizationId) {
+      params.set('organization', organizationId);
+    }
+    setLoginHints(params, hints);
+  },
+  // WorkOS' authenticate endpoint takes JSON.
+  encodeTokenRequest: (params) => ({ headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(params) }),
+  // No id_token or expires_in; the access token's exp is the expiry.
+  parseTokenResponse: (data) => ({
+    access_token: data.access_token as string,
+    refresh_token: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+    expires_in: getExpiresIn(data),
+    token_type: 'Bearer',
+  }),
+  buildLogoutUrl: ({ endpoint, accessToken, postLogoutRedirectUri }) => {
+    // Sessions are ended by id (the access token's sid), not by id_token_hint.
+    const sessionId = accessToken ? decodeJwt(accessToken)?.sid : undefined;
+    if (!endpoint || typeof sessionId !== 'string') return null;
+    return appendQuery(endpoint, new URLSearchParams({ session_id: sessionId, return_to: postLogoutRedirectUri }));
+  },
+  mapClaims: (claims) => ({
+    ...claims,
+    org_guid: claims.org_guid ?? (typeof claims.org_id === 'string' ? claims.org_id : undefined),
+  }),
+};
+
+const ADAPTERS: Record<string, ProviderAdapter> = {
+  oidc: oidcAdapter,
+  keycloak: oidcAdapter,
+  auth0: auth0Adapter,
+  workos: workosAdapter,
+};
+
+export function getProviderAdapter(providerType = getBootstrapConfig()?.auth_provider?.provider_type): ProviderAdapter {
+  return ADAPTERS[providerType?.trim().toLowerCase() ?? ''] ?? oidcAdapter;
+}
+
+/** Claims in our names (org_guid, role, ...) whatever IdP issued the token. */
+export function mapProviderClaims(claims: JwtClaims | null): JwtClaims | null {
+  return claims ? getProviderAdapter().mapClaims(claims) : null;
+}
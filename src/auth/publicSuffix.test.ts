@@ -0,0 +1,67 @@
+import type { BootstrapConfig } from '../contexts/BootstrapContext';
+import { getPublicSuffix, getRegistrableDomain, isPublicSuffix } from './publicSuffix';
+
+let mockConfig: BootstrapConfig | null = null;
+
+jest.mock('../contexts/BootstrapContext', () => ({
+  getBootstrapConfig: () => mockConfig,
+}));
+
+beforeEach(() => {
+  mockConfig = null;
+});
+
+describe('getRegistrableDomain', () => {
+  it.each([
+    ['app.local.synaptagrid.io', 'synaptagrid.io'],
+    ['synaptagrid.io', 'synaptagrid.io'],
+    ['app.example.co.uk', 'example.co.uk'],
+    ['a.b.example.co.uk', 'example.co.uk'],
+    ['example.co.uk', 'example.co.uk'],
+    ['shop.example.com.au', 'example.com.au'],
+    ['acme.github.io', 'acme.github.io'],
+    ['docs.acme.github.io', 'acme.github.io'],
+    ['www.shop.bar.ck', 'shop.bar.ck'],
+    ['WWW.Example.COM.', 'example.com'],
+  ])('%s -> %s', (hostname, expected) => {
+    expect(getRegistrableDomain(hostname)).toBe(expected);
+  });
+
+  it.each([
+    ['localhost'],
+    ['127.0.0.1'],
+    ['10.1.2.3'],
+    ['::1'],
+    ['[::1]'],
+    ['intranet'],
+    ['co.uk'],
+    ['github.io'],
+    ['bar.ck'],
+    ['io'],
+  ])('returns null for %s', (hostname) => {
+    expect(getRegistrableDomain(hostname)).toBeNull();
+  });
+
+  it('uses extra suffixes from bootstrap', () => {
+    mockConfig = { auth: { public_suffixes: ['Platform.Example.'] } } as unknown as BootstrapConfig;
+    expect(getRegistrableDomain('app.acme.platform.example')).toBe('acme.platform.example');
+    expect(getRegistrableDomain('platform.example')).toBeNull();
+  });
+});
+
+describe('getPublicSuffix', () => {
+  it('prefers the longest matching rule', () => {
+    expect(getPublicSuffix('app.example.co.uk')).toBe('co.uk');
+    expect(getPublicSuffix('x.eu-west-1.compute.amazonaws.com')).toBe('eu-west-1.compute.amazonaws.com');
+  });
+
+  it('falls back to the last label', () => {
+    expect(getPublicSuffix('www.example.com')).toBe('com');
+  });
+
+  it('recognizes public suffixes themselves', () => {
+    expect(isPublicSuffix('co.uk')).toBe(true);
+    expect(isPublicSuffix('vercel.app')).toBe(true);
+    expect(isPublicSuffix('example.co.uk')).toBe(false);
+  });
+});
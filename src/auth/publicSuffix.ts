@@ -0,0 +1,109 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+
+/**
+ * Public-suffix handling for cookie domains and redirect checks. Browsers reject cookies set
+ * on a public suffix (co.uk, github.io, ...), and treating `example.co.uk` as two labels would
+ * scope cookies to every site under `.co.uk`. This embeds the part of the Public Suffix List
+ * (https://publicsuffix.org/list/) that our tenants' domains fall under; bootstrap
+ * `auth.public_suffixes` adds more without a release. Rules are exact suffixes or `*.` wildcards.
+ */
+
+const EMBEDDED_PUBLIC_SUFFIXES = [
+  // Second-level country domains (ICANN section)
+  'co.uk', 'org.uk', 'me.uk', 'ltd.uk', 'plc.uk', 'net.uk', 'ac.uk', 'gov.uk', 'nhs.uk',
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au', 'id.au',
+  'co.nz', 'net.nz', 'org.nz', 'govt.nz', 'ac.nz',
+  'co.jp', 'ne.jp', 'or.jp', 'ac.jp', 'go.jp',
+  'co.kr', 'or.kr', 'ac.kr', 'go.kr',
+  'com.cn', 'net.cn', 'org.cn', 'gov.cn', 'edu.cn',
+  'com.hk', 'org.hk', 'net.hk', 'edu.hk', 'gov.hk',
+  'com.tw', 'org.tw', 'net.tw', 'edu.tw', 'gov.tw',
+  'com.sg', 'org.sg', 'net.sg', 'edu.sg', 'gov.sg',
+  'co.in', 'net.in', 'org.in', 'firm.in', 'gen.in', 'ind.in', 'ac.in', 'gov.in',
+  'com.br', 'net.br', 'org.br', 'gov.br',
+  'com.mx', 'org.mx', 'gob.mx', 'edu.mx',
+  'com.ar', 'org.ar', 'gob.ar',
+  'co.za', 'org.za', 'gov.za', 'ac.za',
+  'com.tr', 'org.tr', 'gov.tr',
+  'co.il', 'org.il', 'ac.il', 'gov.il',
+  'com.my', 'org.my', 'gov.my',
+  'co.id', 'or.id', 'ac.id', 'go.id',
+  'com.ph', 'org.ph', 'gov.ph',
+  'co.th', 'or.th', 'ac.th', 'go.th',
+  'com.vn', 'org.vn', 'gov.vn',
+  'com.ua', 'org.ua', 'gov.ua',
+  'com.pl', 'org.pl', 'net.pl',
+  'co.at', 'or.at', 'gv.at',
+  'com.es', 'org.es', 'gob.es',
+  'com.pt', 'org.pt', 'gov.pt',
+  'com.gr', 'org.gr', 'gov.gr',
+  'com.cy', 'org.cy', 'gov.cy',
+  'com.mt', 'org.mt', 'gov.mt',
+  'co.ke', 'or.ke', 'go.ke',
+  'com.ng', 'org.ng', 'gov.ng',
+  'com.eg', 'org.eg', 'gov.eg',
+  'com.sa', 'org.sa', 'gov.sa',
+  'co.ae', 'org.ae', 'gov.ae',
+  'com.co', 'org.co', 'gov.co',
+  'com.pe', 'org.pe', 'gob.pe',
+  'com.ve', 'org.ve', 'gob.ve',
+  'com.uy', 'org.uy', 'gub.uy',
+  'com.ec', 'org.ec', 'gob.ec',
+  'com.mk', 'org.mk', 'gov.mk',
+  'co.rs', 'org.rs', 'gov.rs',
+  'com.ba', 'org.ba', 'gov.ba',
+  'com.hr', 'from.hr', 'iz.hr',
+  '*.ck', '*.bd', '*.kh', '*.np',
+  // Hosting platforms (private section): each customer subdomain is its own site
+  'github.io', 'gitlab.io', 'pages.dev', 'workers.dev', 'vercel.app', 'now.sh', 'netlify.app',
+  'herokuapp.com', 'onrender.com', 'fly.dev', 'web.app', 'firebaseapp.com', 'appspot.com',
+  'azurewebsites.net', 'azurestaticapps.net', 'cloudapp.net', 'cloudfront.net', 'amplifyapp.com',
+  '*.compute.amazonaws.com', '*.elb.amazonaws.com', 's3.amazonaws.com',
+  'blogspot.com', 'ngrok.io', 'ngrok-free.app', 'loca.lt', 'trycloudflare.com',
+];
+
+function normalizeHostname(hostname: string): string {
+  return hostname.trim().toLowerCase().replace(/\.$/, '');
+}
+
+function getPublicSuffixRules(): Set<string> {
+  const extra = getBootstrapConfig()?.auth?.public_suffixes ?? [];
+  return new Set([...EMBEDDED_PUBLIC_SUFFIXES, ...extra.map(normalizeHostname).filter(Boolean)]);
+}
+
+/** Whether the hostname is an IP address or a single-label/local name (no registrable domain). */
+function isLocalHostname(hostname: string): boolean {
+  return hostname === 'localhost' || /^\d+(\.\d+){3}$/.test(hostname) || hostname.includes(':') || !hostname.includes('.');
+}
+
+/** Longest public suffix of `hostname` (the last label when no rule matches). */
+export function getPublicSuffix(hostname: string): string {
+  const labels = normalizeHostname(hostname).split('.');
+  const rules = getPublicSuffixRules();
+  for (let i = 0; i < labels.length; i += 1) {
+    const candidate = labels.slice(i).join('.');
+    if (rules.has(candidate) || (i + 1 < labels.length && rules.has(`*.${labels.slice(i + 1).join('.')}`))) {
+      return candidate;
+    }
+  }
+  return labels[labels.length - 1];
+}
+
+export function isPublicSuffix(hostname: string): boolean {
+  const normalized = normalizeHostname(hostname);
+  return getPublicSuffix(normalized) === normalized;
+}
+
+/**
+ * Registrable domain of a hostname: its public suffix plus one label (synaptagrid.io for
+ * app.local.synaptagrid.io, example.co.uk for app.example.co.uk). Returns null for
+ * localhost, IP addresses, single-label hostnames and public suffixes themselves.
+ */
+export function getRegistrableDomain(hostname: string): string | null {
+  const normalized = normalizeHostname(hostname);
+  if (isLocalHostname(normalized)) return null;
+  const suffix = getPublicSuffix(normalized);
+  if (suffix === normalized) return null;
+  const labels = normalized.split('.');
+  return labels.slice(-(suffix.split('.').length + 1)).join('.');
+}
@@ -0,0 +1,73 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import { getAppBaseUrl, getPortalBaseUrl } from '../api/usersAccounts';
+import { getRegistrableDomain } from './publicSuffix';
+
+/**
+ * Allow-list for absolute redirect targets used by the auth flow and portal links
+ * (AuthN return_url, portal_url from Control Plane, ...). A target is allowed when it is:
+ * - on this origin,
+ * - a configured portal/app origin (REACT_APP_PORTAL_BASE_URL, REACT_APP_APP_BASE_URL,
+ *   REACT_APP_ALLOWED_REDIRECT_ORIGINS),
+ * - on this site's registrable domain, including the tenant subdomains from bootstrap.
+ * Anything else is logged and replaced by a safe default.
+ */
+
+function toOrigin(value: string | null | undefined): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+}
+
+function getConfiguredOrigins(): string[] {
+  const extra = (process.env.REACT_APP_ALLOWED_REDIRECT_ORIGINS ?? '')
+    .split(',')
+    .map((o) => o.trim())
+    .filter(Boolean);
+  return [window.location.origin, getPortalBaseUrl(), getAppBaseUrl(), ...extra]
+    .map(toOrigin)
+    .filter((o): o is string => Boolean(o));
+}
+
+function getTenantHostnames(registrableDomain: string): string[] {
+  const config = getBootstrapConfig();
+  return [config?.organization?.subdomain, config?.instance?.subdomain]
+    .filter((sub): sub is string => typeof sub === 'string' && sub.trim().length > 0)
+    .map((sub) => (sub.includes('.') ? sub.trim().toLowerCase() : `${sub.trim().toLowerCase()}.${registrableDomain}`));
+}
+
+function isOnDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/** Whether `target` (absolute or root-relative URL) is a safe place to send the browser. */
+export function isAllowedRedirectUrl(target: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(target, window.location.origin);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+  // Never downgrade from https.
+  if (url.protocol === 'http:' && window.location.protocol === 'https:') return false;
+  if (url.username || url.password) return false;
+
+  if (getConfiguredOrigins().includes(url.origin)) return true;
+
+  const hostname = url.hostname.toLowerCase();
+  const registrableDomain = getRegistrableDomain(window.location.hostname);
+  if (!registrableDomain) return false;
+  if (getTenantHostnames(registrableDomain).includes(hostname)) return true;
+  return isOnDomain(hostname, registrableDomain);
+}
+
+/** `target` when allowed, otherwise `fallback` (the rejection is logged). */
+export function getSafeRedirectUrl(target: string | null | undefined, fallback: string): string {
+  if (!target) return fallback;
+  if (isAllowedRedirectUrl(target)) return target;
+  console.warn('[Auth] Rejected redirect target; using default instead', { target, fallback });
+  return fallback;
+}
@@ -0,0 +1,60 @@
+/**
+ * Cross-tab mutual exclusion for token refresh. With refresh-token rotation only one tab
+ * may spend the current refresh token; the others wait and then pick up the new cookie.
+ * Uses the Web Locks API; falls back to a short-lived localStorage lease.
+ */
+
+const REFRESH_LOCK_NAME = 'synaptagrid_token_refresh';
+const LEASE_KEY = 'synaptagrid_token_refresh_lease';
+const LEASE_MS = 15000;
+const LEASE_POLL_MS = 250;
+
+const TAB_ID = Math.random().toString(36).slice(2);
+
+type Lease = { owner: string; expires_at_ms: number };
+
+function readLease(): Lease | null {
+  try {
+    const raw = localStorage.getItem(LEASE_KEY);
+    return raw ? (JSON.parse(raw) as Lease) : null;
+  } catch {
+    return null;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function withLease<T>(fn: () => Promise<T>): Promise<T> {
+  // Wait out another tab's lease (bounded by its expiry so a closed tab can't block us).
+  let lease = readLease();
+  while (lease && lease.owner !== TAB_ID && lease.expires_at_ms > Date.now()) {
+    await sleep(LEASE_POLL_MS);
+    lease = readLease();
+  }
+  try {
+    localStorage.setItem(LEASE_KEY, JSON.stringify({ owner: TAB_ID, expires_at_ms: Date.now() + LEASE_MS }));
+  } catch {
+    /* storage unavailable: run unguarded */
+  }
+  try {
+    return await fn();
+  } finally {
+    if (readLease()?.owner === TAB_ID) {
+      try {
+        localStorage.removeItem(LEASE_KEY);
+      } catch {
+        /* ignore */
+      }
+    }
+  }
+}
+
+/** Run `fn` while holding the cross-tab refresh lock. */
+export function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks?.request) {
+    return navigator.locks.request(REFRESH_LOCK_NAME, { mode: 'exclusive' }, fn) as Promise<T>;
+  }
+  return withLease(fn);
+}
@@ -0,0 +1,193 @@
+import { getTokenStore } from './tokenStore';
+import { refreshAccessToken, TokenRefreshError } from './oidc';
+import type { TokenResponse } from './oidc';
+import { postAuthMessage, subscribeToAuthMessages } from './authChannel';
+import { withRefreshLock } from './refreshLock';
+import { DEFAULT_CLOCK_SKEW_SECONDS, getJwtExpiresAtMs } from './jwt';
+import { endLocalSession } from './logout';
+
+/**
+ * Access-token refresh scheduler.
+ *
+ * Instead of one timer computed at startup, the due time is re-derived from the access token
+ * in the token store whenever something may have changed: a periodic tick (which also notices
+ * wake-from-sleep, since it compares against the wall clock), tab focus/visibility, coming
+ * back online, cookie changes (login in this or another tab) and refresh broadcasts.
+ * Transient failures (network, 5xx, missing config) retry with exponential backoff; only a
+ * definitive `invalid_grant` ends the session.
+ */
+
+const REFRESH_LEAD_MS = 60000;
+const TICK_MS = 15000;
+const MIN_REFRESH_INTERVAL_MS = 10000;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+// setTimeout overflows above 2^31-1 ms; the tick re-arms long waits anyway.
+const MAX_TIMEOUT_MS = 2147483647;
+
+// Cookie Store API (Chromium); not in the TS DOM lib yet.
+type CookieStoreLike = {
+  addEventListener: (type: 'change', listener: () => void) => void;
+  removeEventListener: (type: 'change', listener: () => void) => void;
+};
+
+function getRefreshDueAtMs(accessToken: string): number | null {
+  const expiresAtMs = getJwtExpiresAtMs(accessToken);
+  // Refresh early enough that a skewed local clock doesn't send an already-expired token.
+  return expiresAtMs === null ? null : expiresAtMs - REFRESH_LEAD_MS - DEFAULT_CLOCK_SKEW_SECONDS * 1000;
+}
+
+function getRetryDelayMs(attempt: number): number {
+  const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  // Full jitter on the upper half so tabs and clients don't retry in lockstep.
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Refresh now under the cross-tab lock, store the new tokens and tell other tabs.
+ * With `onlyIfAccessToken`, does nothing when another tab already replaced that token.
+ * Resolves to null when there was nothing to refresh; rejects with the refresh error.
+ */
+export async function refreshSessionTokens(onlyIfAccessToken?: string): Promise<TokenResponse | null> {
+  const refreshed = await withRefreshLock(async () => {
+    const store = getTokenStore();
+    // Another tab refreshed while we waited for the lock: its tokens are already in the cookies.
+    if (onlyIfAccessToken !== undefined && store.getAccessToken() !== onlyIfAccessToken) return null;
+    const refreshToken = store.getRefreshToken();
+    if (!refreshToken) return null;
+    const newTokens = await refreshAccessToken(refreshToken);
+    await store.setTokens(newTokens);
+    return newTokens;
+  });
+  if (refreshed) {
+    postAuthMessage({ type: 'tokens_refreshed' });
+  }
+  return refreshed;
+}
+
+/** Start scheduling refreshes for the current tab. Returns a stop function. */
+export function startTokenRefreshScheduler(): () => void {
+  let stopped = false;
+  let inFlight = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let knownAccessToken: string | null = null;
+  let dueAtMs: number | null = null;
+  let notBeforeMs = 0;
+  let retryAttempt = 0;
+  let retryAtMs: number | null = null;
+  let lastTickMs = Date.now();
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const arm = (targetMs: number) => {
+    clearTimer();
+    timer = setTimeout(evaluate, Math.min(MAX_TIMEOUT_MS, Math.max(0, targetMs - Date.now())));
+  };
+
+  const runRefresh = async (scheduledAccessToken: string) => {
+    inFlight = true;
+    try {
+      await refreshSessionTokens(scheduledAccessToken);
+      retryAttempt = 0;
+      retryAtMs = null;
+      notBeforeMs = Date.now() + MIN_REFRESH_INTERVAL_MS;
+    } catch (err) {
+      if (err instanceof TokenRefreshError && err.isInvalidGrant) {
+        console.warn('[Auth] Refresh token rejected (invalid_grant); signing out');
+        stopped = true;
+        clearTimer();
+        await endLocalSession();
+        window.location.href = '/login';
+        return;
+      }
+      retryAttempt += 1;
+      const delayMs = getRetryDelayMs(retryAttempt);
+      retryAtMs = Date.now() + delayMs;
+      console.warn('[Auth] Token refresh failed; will retry', {
+        attempt: retryAttempt,
+        retryInMs: Math.round(delayMs),
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      inFlight = false;
+    }
+    evaluate();
+  };
+
+  function evaluate() {
+    if (stopped || inFlight) return;
+    // BFF mode never exposes tokens, so there is nothing to schedule.
+    const store = getTokenStore();
+    const accessToken = store.getAccessToken();
+    if (accessToken !== knownAccessToken) {
+      // New login, refresh from another tab, or sign-out: start over from the cookie.
+      knownAccessToken = accessToken;
+      dueAtMs = accessToken ? getRefreshDueAtMs(accessToken) : null;
+      retryAttempt = 0;
+      retryAtMs = null;
+    }
+    if (!accessToken || !store.getRefreshToken() || dueAtMs === null) {
+      clearTimer();
+      return;
+    }
+    const targetMs = retryAtMs ?? Math.max(dueAtMs, notBeforeMs);
+    if (Date.now() < targetMs) {
+      arm(targetMs);
+      return;
+    }
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      // Wait for the `online` event rather than burning retries.
+      clearTimer();
+      return;
+    }
+    void runRefresh(accessToken);
+  }
+
+  const onTick = () => {
+    const now = Date.now();
+    if (now - lastTickMs > TICK_MS * 2) {
+      console.log('[Auth] Resumed after sleep; re-checking token expiry');
+    }
+    lastTickMs = now;
+    evaluate();
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') evaluate();
+  };
+
+  const onOnline = () => {
+    // Connectivity is back: retry right away instead of waiting out the backoff.
+    retryAtMs = retryAtMs === null ? null : Date.now();
+    evaluate();
+  };
+
+  const tickInterval = setInterval(onTick, TICK_MS);
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  window.addEventListener('focus', evaluate);
+  window.addEventListener('online', onOnline);
+  const cookieStore = (window as unknown as { cookieStore?: CookieStoreLike }).cookieStore;
+  cookieStore?.addEventListener('change', evaluate);
+  const unsubscribe = subscribeToAuthMessages(() => {
+    // tokens_refreshed or logout: the shared cookies changed either way.
+    evaluate();
+  });
+
+  evaluate();
+
+  return () => {
+    stopped = true;
+    clearTimer();
+    clearInterval(tickInterval);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+    window.removeEventListener('focus', evaluate);
+    window.removeEventListener('online', onOnline);
+    cookieStore?.removeEventListener('change', evaluate);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,63 @@
+/* eslint-disable no-script-url -- script URLs are what these tests reject */
+import { buildAuthCallbackUrl, getReturnPathFromSearch, sanitizeReturnPath, withReturnTo } from './returnTo';
+
+const originalLocation = window.location;
+
+beforeAll(() => {
+  // Served from www.example.com rather than jsdom's http://localhost.
+  Object.defineProperty(window, 'location', { configurable: true, value: new URL('https://www.example.com/pricing') });
+});
+
+afterAll(() => {
+  Object.defineProperty(window, 'location', { configurable: true, value: originalLocation });
+});
+
+describe('sanitizeReturnPath', () => {
+  it.each([
+    ['/pricing', '/pricing'],
+    ['/docs/setup?tab=api#keys', '/docs/setup?tab=api#keys'],
+    ['  /pricing  ', '/pricing'],
+    ['/loginx', '/loginx'],
+    ['/blog/../pricing', '/pricing'],
+  ])('keeps %p', (value, expected) => {
+    expect(sanitizeReturnPath(value)).toBe(expected);
+  });
+
+  it.each([
+    ['missing', null],
+    ['empty', ''],
+    ['protocol-relative', '//evil.com'],
+    ['protocol-relative with a backslash', '/\\evil.com'],
+    ['protocol-relative behind a tab', '/\t/evil.com'],
+    ['protocol-relative behind a newline', '/\n/evil.com'],
+    ['javascript:', 'javascript:alert(1)'],
+    ['absolute on another site', 'https://evil.com/'],
+    ['absolute on this site', 'https://www.example.com/pricing'],
+    ['userinfo', 'https://www.example.com@evil.com/'],
+    ['relative', 'pricing'],
+    ['the login page', '/login'],
+    ['a login sub-page', '/login/sso?x=1'],
+    ['the register page', '/register'],
+    ['an auth callback', '/auth/callback?code=abc'],
+  ])('rejects %s', (_, value) => {
+    expect(sanitizeReturnPath(value)).toBeNull();
+  });
+});
+
+describe('return_to params', () => {
+  it('reads and sanitizes return_to from a query string', () => {
+    expect(getReturnPathFromSearch('?return_to=%2Fdocs%3Fa%3D1')).toBe('/docs?a=1');
+    expect(getReturnPathFromSearch('?return_to=%2F%2Fevil.com')).toBeNull();
+    expect(getReturnPathFromSearch('')).toBeNull();
+  });
+
+  it('appends return_to with the right separator', () => {
+    expect(withReturnTo('/login', '/docs?a=1')).toBe('/login?return_to=%2Fdocs%3Fa%3D1');
+    expect(withReturnTo('/login?mode=sso', '/docs')).toBe('/login?mode=sso&return_to=%2Fdocs');
+    expect(withReturnTo('/login', null)).toBe('/login');
+  });
+
+  it('builds the callback URL on this origin', () => {
+    expect(buildAuthCallbackUrl('/docs')).toBe('https://www.example.com/auth/callback?return_to=%2Fdocs');
+  });
+});
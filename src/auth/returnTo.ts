@@ -0,0 +1,48 @@
+/**
+ * Where to send the user after sign-in. Only same-origin paths on the marketing site are
+ * accepted; auth pages themselves are excluded so a round trip can't loop back into login.
+ */
+
+export const RETURN_TO_PARAM = 'return_to';
+
+const AUTH_PATH_PREFIXES = ['/login', '/register', '/auth/'];
+
+/** Normalize a candidate return path; null when it is missing, off-site or an auth page. */
+export function sanitizeReturnPath(value: string | null | undefined): string | null {
+  if (!value || typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  // Must be a rooted path; `//host` and `/\host` are protocol-relative in browsers.
+  if (!trimmed.startsWith('/') || trimmed.startsWith('//') || trimmed.startsWith('/\\')) return null;
+  let url: URL;
+  try {
+    url = new URL(trimmed, window.location.origin);
+  } catch {
+    return null;
+  }
+  if (url.origin !== window.location.origin) return null;
+  if (AUTH_PATH_PREFIXES.some((prefix) => url.pathname === prefix || url.pathname.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`))) {
+    return null;
+  }
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+export function getReturnPathFromSearch(search: string): string | null {
+  return sanitizeReturnPath(new URLSearchParams(search).get(RETURN_TO_PARAM));
+}
+
+/** Path of the current page, suitable for a `return_to` param (null on auth pages). */
+export function getCurrentReturnPath(): string | null {
+  return sanitizeReturnPath(`${window.location.pathname}${window.location.search}`);
+}
+
+/** `path?return_to=...` when there is a return path, else `path` unchanged. */
+export function withReturnTo(path: string, returnPath: string | null): string {
+  if (!returnPath) return path;
+  const separator = path.includes('?') ? '&' : '?';
+  return `${path}${separator}${RETURN_TO_PARAM}=${encodeURIComponent(returnPath)}`;
+}
+
+/** AuthN social return_url: our callback, carrying the return path as a query param. */
+export function buildAuthCallbackUrl(returnPath: string | null): string {
+  return withReturnTo(`${window.location.origin}/auth/callback`, returnPath);
+}
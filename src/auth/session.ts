@@ -0,0 +1,92 @@
+/**
+ * Per-tab session state kept in sessionStorage: the cached marketing user shown in TopNav
+ * and the last id_token (needed as id_token_hint for RP-initiated logout).
+ */
+
+const MARKETING_USER_KEY = 'synaptagrid_marketing_user';
+const MARKETING_USER_FETCHED_AT_KEY = 'synaptagrid_marketing_user_fetched_at_ms';
+const ID_TOKEN_KEY = 'synaptagrid_oidc_id_token';
+
+/** `role` is the user's role in that organization, when AuthN reports it. */
+export type SessionOrganization = { guid?: string; slug?: string; name?: string; role?: string };
+
+export type SessionUser = {
+  name: string;
+  email?: string;
+  organization?: SessionOrganization | null;
+  role?: string | null;
+  /** Every organization the user can switch to (from AuthN `/me`). */
+  organizations?: SessionOrganization[];
+};
+
+/** Display name from an AuthN user payload: display_name, then name, then the email's local part. */
+export function getUserDisplayName(user: { display_name?: string; name?: string; email?: string | null }): string {
+  return user.display_name || user.name || user.email?.split('@')[0] || 'User';
+}
+
+export function getStoredUser(): SessionUser | null {
+  try {
+    const stored = sessionStorage.getItem(MARKETING_USER_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as Partial<SessionUser>;
+    return {
+      name: parsed.name ?? parsed.email?.split('@')[0] ?? 'User',
+      email: parsed.email,
+      organization: parsed.organization ?? null,
+      role: parsed.role ?? null,
+      organizations: parsed.organizations ?? [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function getStoredUserFetchedAtMs(): number | null {
+  try {
+    const raw = sessionStorage.getItem(MARKETING_USER_FETCHED_AT_KEY);
+    if (!raw) return null;
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Cache the signed-in user for this tab; `fetched` marks it as fresh from AuthN. */
+export function setStoredUser(user: SessionUser, { fetched = false }: { fetched?: boolean } = {}): void {
+  try {
+    sessionStorage.setItem(MARKETING_USER_KEY, JSON.stringify(user));
+    if (fetched) {
+      sessionStorage.setItem(MARKETING_USER_FETCHED_AT_KEY, String(Date.now()));
+    }
+  } catch {
+    /* ignore */
+  }
+}
+
+export function setStoredIdToken(idToken: string): void {
+  try {
+    sessionStorage.setItem(ID_TOKEN_KEY, idToken);
+  } catch {
+    /* ignore */
+  }
+}
+
+export function getStoredIdToken(): string | null {
+  try {
+    return sessionStorage.getItem(ID_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/** Remove the cached user and id_token for this tab. */
+export function clearStoredSession(): void {
+  try {
+    sessionStorage.removeItem(MARKETING_USER_KEY);
+    sessionStorage.removeItem(MARKETING_USER_FETCHED_AT_KEY);
+    sessionStorage.removeItem(ID_TOKEN_KEY);
+  } catch {
+    /* ignore */
+  }
+}
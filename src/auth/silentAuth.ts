@@ -0,0 +1,197 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import { postAuthMessage } from './authChannel';
+import { createAuthorizeRequest, exchangeAuthorizationCode } from './oidc';
+import { getProviderAdapter } from './providerAdapters';
+import type { TokenResponse } from './oidc';
+import { withRefreshLock } from './refreshLock';
+import { getCurrentReturnPath } from './returnTo';
+import { setStoredIdToken } from './session';
+import { getTokenStore } from './tokenStore';
+
+/**
+ * Silent sign-in (`prompt=none`): runs the same PKCE authorize request as startAuthRedirect
+ * in a hidden iframe against a static callback page that posts the response URL back. Used to
+ * restore tokens when the refresh cookie is gone but the IdP session is still alive, without
+ * a full page redirect. Where third-party cookies block the iframe the attempt just fails and
+ * the user signs in normally.
+ */
+
+export type SilentAuthResult =
+  | { status: 'signed_in'; tokens: TokenResponse }
+  /** The IdP has no usable session (`login_required`, `interaction_required`, ...). */
+  | { status: 'interaction_required'; error: string };
+
+export type SilentAuthErrorCode = 'config_missing' | 'timeout' | 'state_mismatch' | 'idp_error';
+
+export class SilentAuthError extends Error {
+  code: SilentAuthErrorCode;
+
+  constructor(code: SilentAuthErrorCode, message: string) {
+    super(message);
+    this.name = 'SilentAuthError';
+    this.code = code;
+  }
+}
+
+const CALLBACK_MESSAGE_TYPE = 'synaptagrid_silent_auth';
+const IFRAME_TIMEOUT_MS = 10000;
+// After a failed or interaction-required attempt, don't retry on every page view.
+const RETRY_AFTER_MS = 5 * 60 * 1000;
+const LAST_ATTEMPT_KEY = 'synaptagrid_silent_auth_attempted_at_ms';
+// OIDC Core 3.1.2.6: errors meaning "the user has to be shown a page".
+const INTERACTION_ERRORS = ['login_required', 'interaction_required', 'consent_required', 'account_selection_required'];
+
+let inflight: Promise<SilentAuthResult> | null = null;
+const restoredListeners = new Set<() => void>();
+
+function getSilentRedirectUri(): string {
+  const configured = getBootstrapConfig()?.auth_provider?.silent_redirect_uri;
+  return configured?.trim() || `${window.location.origin}/silent-callback.html`;
+}
+
+/** Resolve with the URL the callback page reports from `source()`; reject on timeout. */
+function waitForCallbackUrl(source: () => Window | null, timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const onMessage = (event: MessageEvent<{ type?: string; url?: string }>) => {
+      if (event.origin !== window.location.origin || event.source !== source()) return;
+      if (event.data?.type !== CALLBACK_MESSAGE_TYPE || typeof event.data.url !== 'string') return;
+      cleanup();
+      resolve(event.data.url);
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new SilentAuthError('timeout', 'Silent sign-in timed out.'));
+    }, timeoutMs);
+    function cleanup() {
+      clearTimeout(timeout);
+      window.removeEventListener('message', onMessage);
+    }
+    window.addEventListener('message', onMessage);
+  });
+}
+
+async function runInIframe(url: string): Promise<string> {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.tabIndex = -1;
+  frame.title = 'Silent sign-in';
+  frame.style.display = 'none';
+  const result = waitForCallbackUrl(() => frame.contentWindow, IFRAME_TIMEOUT_MS);
+  frame.src = url;
+  document.body.appendChild(frame);
+  try {
+    return await result;
+  } finally {
+    frame.remove();
+  }
+}
+
+/** Query and fragment params of the callback URL (response_mode may be either). */
+function getCallbackParams(callbackUrl: string): URLSearchParams {
+  const url = new URL(callbackUrl);
+  const params = new URLSearchParams(url.search);
+  new URLSearchParams(url.hash.replace(/^#/, '')).forEach((value, key) => params.set(key, value));
+  return params;
+}
+
+async function storeTokens(tokens: TokenResponse): Promise<void> {
+  await getTokenStore().setTokens(tokens);
+  if (tokens.id_token) {
+    setStoredIdToken(tokens.id_token);
+  }
+  postAuthMessage({ type: 'tokens_refreshed' });
+  restoredListeners.forEach((listener) => listener());
+}
+
+async function authenticate(): Promise<SilentAuthResult> {
+  const provider = getBootstrapConfig()?.auth_provider;
+  // Endpoints may also come from discovery; createAuthorizeRequest rejects when they don't.
+  if (!provider?.client_id || !(provider.issuer || (provider.authorization_endpoint && provider.token_endpoint))) {
+    throw new SilentAuthError('config_missing', 'Silent sign-in is not configured.');
+  }
+  if (!getProviderAdapter(provider.provider_type).supportsPromptNone) {
+    throw new SilentAuthError('config_missing', 'This identity provider does not support silent sign-in.');
+  }
+  const request = await createAuthorizeRequest('login', { prompt: 'none', redirectUri: getSilentRedirectUri() });
+  const callbackUrl = await runInIframe(request.url);
+  const params = getCallbackParams(callbackUrl);
+
+  if (params.get('state') !== request.state) {
+    throw new SilentAuthError('state_mismatch', 'Silent sign-in response does not match this request.');
+  }
+  const error = params.get('error');
+  if (error) {
+    if (INTERACTION_ERRORS.includes(error)) {
+      return { status: 'interaction_required', error };
+    }
+    throw new SilentAuthError('idp_error', params.get('error_description') ?? error);
+  }
+  const code = params.get('code');
+  if (!code) {
+    throw new SilentAuthError('idp_error', 'Silent sign-in response had no authorization code.');
+  }
+  const tokens = await exchangeAuthorizationCode({
+    code,
+    verifier: request.verifier,
+    nonce: request.nonce,
+    redirectUri: request.redirectUri,
+  });
+  await storeTokens(tokens);
+  return { status: 'signed_in', tokens };
+}
+
+/** Try to get tokens from the IdP session without user interaction. Concurrent calls share one attempt. */
+export function silentAuthenticate(): Promise<SilentAuthResult> {
+  if (!inflight) {
+    inflight = authenticate().finally(() => {
+      inflight = null;
+    });
+  }
+  return inflight;
+}
+
+/** Only a known-missing session is worth restoring (BFF status may not be known yet). */
+function hasSession(): boolean {
+  return getTokenStore().hasSession() !== false;
+}
+
+function readLastAttemptMs(): number {
+  try {
+    return Number(sessionStorage.getItem(LAST_ATTEMPT_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Restore a signed-out tab from the IdP session, at most once per RETRY_AFTER_MS and never
+ * on auth pages (login, register, callbacks). Resolves true when tokens were restored.
+ */
+export async function restoreSessionSilently(): Promise<boolean> {
+  if (hasSession() || !getCurrentReturnPath()) return false;
+  if (Date.now() - readLastAttemptMs() < RETRY_AFTER_MS) return false;
+  try {
+    sessionStorage.setItem(LAST_ATTEMPT_KEY, String(Date.now()));
+  } catch {
+    /* ignore */
+  }
+  try {
+    // Another tab may be restoring (or refreshing) at the same time; its cookies win.
+    const result = await withRefreshLock(async () => (hasSession() ? null : silentAuthenticate()));
+    if (result?.status === 'interaction_required') {
+      console.log('[Auth] No IdP session to restore', { error: result.error });
+    }
+    return result?.status === 'signed_in';
+  } catch (err) {
+    console.warn('[Auth] Silent sign-in failed', err instanceof Error ? err.message : err);
+    return false;
+  }
+}
+
+/** Run `listener` when this tab restores a session silently. Returns an unsubscribe function. */
+export function subscribeToSessionRestored(listener: () => void): () => void {
+  restoredListeners.add(listener);
+  return () => {
+    restoredListeners.delete(listener);
+  };
+}
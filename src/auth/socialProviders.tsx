@@ -0,0 +1,143 @@
+import React from 'react';
+
+/**
+ * Social sign-in providers known to the marketing site. Bootstrap `social_providers` lists
+ * the ids enabled for the org; anything listed here renders with its brand assets, and
+ * unknown ids still get a generic button (see getSocialProviders).
+ */
+
+export type SocialProviderDefinition = {
+  /** Id as it appears in bootstrap social_providers and the AuthN /v1/authn/login/{id} path. */
+  id: string;
+  /** Brand name as the provider spells it. */
+  name: string;
+  /** Button text required (or recommended) by the provider's brand guidelines. */
+  buttonText: string;
+  icon: React.ComponentType;
+  /** Lower sorts first; unknown providers come after all known ones. */
+  order: number;
+  /** Providers whose guidelines require a dark button (e.g. Sign in with Apple). */
+  variant?: 'dark';
+};
+
+const GoogleIcon = () => (
+  <span className="auth-social-icon" aria-hidden>
+    <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
+      <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
+      <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
+      <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
+    </svg>
+  </span>
+);
+const GitHubIcon = () => (
+  <span className="auth-social-icon" aria-hidden>
+    <svg viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+      <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
+    </svg>
+  </span>
+);
+const XIcon = () => (
+  <span className="auth-social-icon" aria-hidden>
+    <svg viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+      <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z"/>
+    </svg>
+  </span>
+);
+const MicrosoftIcon = () => (
+  <span className="auth-social-icon" aria-hidden>
+    <svg viewBox="0 0 23 23" xmlns="http://www.w3.org/2000/svg">
+      <path fill="#f35325" d="M1 1h10v10H1z"/>
+      <path fill="#81bc06" d="M12 1h10v10H12z"/>
+      <path fill="#05a6f0" d="M1 12h10v10H1z"/>
+      <path fill="#ffba08" d="M12 12h10v10H12z"/>
+    </svg>
+  </span>
+);
+const AppleIcon = () => (
+  <span className="auth-social-icon" aria-hidden>
+    <svg viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+      <path d="M12.152 6.896c-.948 0-2.415-1.078-3.96-1.04-2.04.027-3.91 1.183-4.961 3.014-2.117 3.675-.546 9.103 1.519 12.09 1.013 1.454 2.208 3.09 3.792 3.039 1.52-.065 2.09-.987 3.935-.987 1.831 0 2.35.987 3.96.948 1.637-.026 2.676-1.48 3.676-2.948 1.156-1.688 1.636-3.325 1.662-3.415-.039-.013-3.182-1.221-3.22-4.857-.026-3.04 2.48-4.494 2.597-4.559-1.429-2.09-3.623-2.324-4.39-2.376-2-.156-3.675 1.09-4.61 1.09zM15.53 3.83c.843-1.012 1.4-2.427 1.245-3.83-1.207.052-2.662.805-3.532 1.818-.78.896-1.454 2.338-1.273 3.714 1.338.104 2.715-.688 3.559-1.701"/>
+    </svg>
+  </span>
+);
+const GitLabIcon = () => (
+  <span className="auth-social-icon" aria-hidden>
+    <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path fill="#FC6D26" d="m23.6 9.593-.033-.086L20.3.98a.851.851 0 0 0-.336-.405.875.875 0 0 0-1 .054.875.875 0 0 0-.29.44L16.47 7.818H7.537L5.332 1.07a.857.857 0 0 0-.29-.441.875.875 0 0 0-1-.054.859.859 0 0 0-.336.405L.433 9.502l-.032.086a6.066 6.066 0 0 0 2.012 7.01l.01.009.03.021 4.977 3.727 2.462 1.863 1.5 1.132a1.008 1.008 0 0 0 1.22 0l1.499-1.132 2.461-1.863 5.006-3.75.013-.01a6.068 6.068 0 0 0 2.01-7.002z"/>
+    </svg>
+  </span>
+);
+const LinkedInIcon = () => (
+  <span className="auth-social-icon" aria-hidden>
+    <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path fill="#0A66C2" d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z"/>
+    </svg>
+  </span>
+);
+const OktaIcon = () => (
+  <span className="auth-social-icon" aria-hidden>
+    <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path fill="#007DC1" d="M12 0C5.389 0 0 5.35 0 12s5.35 12 12 12 12-5.35 12-12S18.611 0 12 0zm0 18c-3.325 0-6-2.675-6-6s2.675-6 6-6 6 2.675 6 6-2.675 6-6 6z"/>
+    </svg>
+  </span>
+);
+/** Fallback for providers we have no brand assets for. */
+const GenericProviderIcon = () => (
+  <span className="auth-social-icon" aria-hidden>
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" xmlns="http://www.w3.org/2000/svg">
+      <rect x="4" y="11" width="16" height="10" rx="2"/>
+      <path d="M8 11V7a4 4 0 0 1 8 0v4"/>
+    </svg>
+  </span>
+);
+
+const SOCIAL_PROVIDER_REGISTRY: SocialProviderDefinition[] = [
+  { id: 'google', name: 'Google', buttonText: 'Sign in with Google', icon: GoogleIcon, order: 10 },
+  { id: 'microsoft', name: 'Microsoft', buttonText: 'Sign in with Microsoft', icon: MicrosoftIcon, order: 20 },
+  { id: 'apple', name: 'Apple', buttonText: 'Sign in with Apple', icon: AppleIcon, order: 30, variant: 'dark' },
+  { id: 'github', name: 'GitHub', buttonText: 'Sign in with GitHub', icon: GitHubIcon, order: 40 },
+  { id: 'gitlab', name: 'GitLab', buttonText: 'Sign in with GitLab', icon: GitLabIcon, order: 50 },
+  { id: 'linkedin', name: 'LinkedIn', buttonText: 'Sign in with LinkedIn', icon: LinkedInIcon, order: 60 },
+  { id: 'twitter', name: 'X', buttonText: 'Sign in with X', icon: XIcon, order: 70 },
+  { id: 'okta', name: 'Okta', buttonText: 'Sign in with Okta', icon: OktaIcon, order: 80 },
+];
+
+const UNKNOWN_PROVIDER_ORDER = 1000;
+
+function humanizeProviderId(id: string): string {
+  return id
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+export function getSocialProviderDefinition(id: string): SocialProviderDefinition {
+  const normalized = id.trim().toLowerCase();
+  const known = SOCIAL_PROVIDER_REGISTRY.find((p) => p.id === normalized);
+  if (known) return known;
+  const name = humanizeProviderId(normalized) || normalized;
+  return {
+    id: normalized,
+    name,
+    buttonText: `Sign in with ${name}`,
+    icon: GenericProviderIcon,
+    order: UNKNOWN_PROVIDER_ORDER,
+  };
+}
+
+/** Definitions for the bootstrap social_providers ids, de-duplicated and in display order. */
+export function getSocialProviders(ids: string[] | undefined | null): SocialProviderDefinition[] {
+  const seen = new Set<string>();
+  const providers: SocialProviderDefinition[] = [];
+  (ids ?? []).forEach((id) => {
+    if (typeof id !== 'string' || !id.trim()) return;
+    const definition = getSocialProviderDefinition(id);
+    if (seen.has(definition.id)) return;
+    seen.add(definition.id);
+    providers.push(definition);
+  });
+  // Array.prototype.sort is stable, so unknown providers keep their bootstrap order.
+  return providers.sort((a, b) => a.order - b.order);
+}
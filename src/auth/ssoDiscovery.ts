@@ -0,0 +1,93 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import type { BootstrapConfig } from '../contexts/BootstrapContext';
+import type { AuthHints } from './oidc';
+
+/**
+ * Home-realm discovery: map a work email's domain to the organization's enterprise IdP
+ * via the bootstrap `auth.sso_config_url`. Without that endpoint, the tenant-level
+ * auth_provider settings from bootstrap are the answer for every email.
+ */
+
+export type SsoDiscoveryResult = {
+  sso_enabled: boolean;
+  sso_required: boolean;
+  sso_button_text: string | null;
+  organization_name?: string | null;
+  hints: AuthHints;
+};
+
+type SsoDiscoveryResponse = {
+  sso_enabled?: boolean;
+  sso_required?: boolean;
+  sso_button_text?: string | null;
+  organization_name?: string | null;
+  kc_idp_hint?: string | null;
+  workos_connection_id?: string | null;
+  workos_organization_id?: string | null;
+};
+
+export function getEmailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  if (at < 1 || at === email.length - 1) return null;
+  return email.slice(at + 1).trim().toLowerCase() || null;
+}
+
+/** Tenant-level SSO: required, or an enterprise IdP connection is configured in bootstrap. */
+function isTenantSsoEnabled(provider: BootstrapConfig['auth_provider']): boolean {
+  return Boolean(provider?.sso_required || provider?.kc_idp_hint || provider?.workos_connection_id || provider?.workos_organization_id);
+}
+
+/** Whether to offer "Sign in with SSO" at all: the tenant has SSO, or emails can be looked up. */
+export function isSsoAvailable(config: BootstrapConfig | null = getBootstrapConfig()): boolean {
+  return Boolean(config?.auth?.sso_config_url?.trim()) || isTenantSsoEnabled(config?.auth_provider);
+}
+
+function fromBootstrap(email: string): SsoDiscoveryResult {
+  const provider = getBootstrapConfig()?.auth_provider;
+  const hints: AuthHints = { loginHint: email, domainHint: getEmailDomain(email) ?? undefined };
+  return {
+    sso_enabled: isTenantSsoEnabled(provider),
+    sso_required: Boolean(provider?.sso_required),
+    sso_button_text: provider?.sso_button_text ?? null,
+    hints,
+  };
+}
+
+/** Discover the IdP for `email`. Throws when the discovery endpoint fails. */
+export async function discoverSso(email: string): Promise<SsoDiscoveryResult> {
+  const domain = getEmailDomain(email);
+  if (!domain) {
+    throw new Error('Enter a valid work email.');
+  }
+  const config = getBootstrapConfig();
+  const discoveryUrl = config?.auth?.sso_config_url?.trim();
+  if (!discoveryUrl) {
+    return fromBootstrap(email);
+  }
+
+  const separator = discoveryUrl.includes('?') ? '&' : '?';
+  const url = `${discoveryUrl}${separator}${new URLSearchParams({ domain, hostname: window.location.hostname }).toString()}`;
+  const res = await fetch(url, { credentials: 'omit' });
+  if (res.status === 404) {
+    // Domain not claimed by any org: fall back to the tenant's own settings.
+    return fromBootstrap(email);
+  }
+  if (!res.ok) {
+    console.error('[SSO] Discovery failed', { status: res.status, domain });
+    throw new Error('Could not look up single sign-on for this email. Try again.');
+  }
+  const data = (await res.json()) as SsoDiscoveryResponse;
+  const tenant = fromBootstrap(email);
+  return {
+    sso_enabled: Boolean(data.sso_enabled),
+    sso_required: Boolean(data.sso_required) || tenant.sso_required,
+    sso_button_text: data.sso_button_text ?? tenant.sso_button_text,
+    organization_name: data.organization_name ?? null,
+    hints: {
+      ...tenant.hints,
+      kcIdpHint: data.kc_idp_hint ?? undefined,
+      workosConnectionId: data.workos_connection_id ?? undefined,
+      workosOrganizationId: data.workos_organization_id ?? undefined,
+    },
+  };
+}
@@ -0,0 +1,176 @@
+import { getBootstrapConfig } from '../contexts/BootstrapContext';
+import {
+  clearAuthCookies,
+  getAccessTokenCookie,
+  getRefreshTokenCookie,
+  setAccessTokenCookie,
+  setRefreshTokenCookie,
+} from './cookie';
+import { getRefreshLifetimeSeconds } from './cookiePolicy';
+import { dpopFetch } from './dpop';
+import { isJwtExpired } from './jwt';
+import type { SessionOrganization } from './session';
+
+/**
+ * Where the SPA keeps tokens, selected by bootstrap `auth.token_storage`:
+ *
+ * - `cookie` (default): JS-readable cookies on the parent domain, shared with portal and apps.
+ * - `memory`: this tab only, refresh token included; gone on reload (silent sign-in restores it).
+ * - `bff`: a backend-for-frontend at `auth.bff_url` keeps tokens in HttpOnly cookies. The SPA
+ *   never sees them; it hands fresh tokens to `POST {bff_url}/session`, reads status from
+ *   `GET {bff_url}/session` and ends the session with `DELETE {bff_url}/session`.
+ */
+
+export type TokenStorageKind = 'cookie' | 'memory' | 'bff';
+
+export type StoredTokens = {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  refresh_expires_in?: number;
+};
+
+export type TokenStore = {
+  kind: TokenStorageKind;
+  /** Bearer token for API calls; always null in BFF mode. */
+  getAccessToken: () => string | null;
+  getRefreshToken: () => string | null;
+  /** Whether there is a usable session; null when not known yet (BFF before the first status check). */
+  hasSession: () => boolean | null;
+  setTokens: (tokens: StoredTokens) => Promise<void>;
+  clear: () => Promise<void>;
+  /** BFF only: ask the backend for the current session status (null when unreachable). */
+  fetchSession?: () => Promise<BffSession | null>;
+};
+
+/** `GET {bff_url}/session` response. */
+export type BffSession = {
+  authenticated: boolean;
+  expires_in?: number;
+  user?: { email: string; display_name?: string; name?: string };
+  organization?: SessionOrganization | null;
+  organizations?: SessionOrganization[];
+};
+
+/** Access token that is unexpired, or expired but still renewable with the refresh token. */
+function hasUsableTokens(accessToken: string | null, refreshToken: string | null): boolean {
+  if (!accessToken) return false;
+  return !isJwtExpired(accessToken) || Boolean(refreshToken);
+}
+
+export function createCookieTokenStore(): TokenStore {
+  return {
+    kind: 'cookie',
+    getAccessToken: getAccessTokenCookie,
+    getRefreshToken: getRefreshTokenCookie,
+    hasSession: () => hasUsableTokens(getAccessTokenCookie(), getRefreshTokenCookie()),
+    setTokens: async (tokens) => {
+      setAccessTokenCookie(tokens.access_token, tokens.expires_in);
+      if (tokens.refresh_token) {
+        setRefreshTokenCookie(tokens.refresh_token, tokens.refresh_expires_in);
+      }
+    },
+    clear: async () => clearAuthCookies(),
+  };
+}
+
+export function createMemoryTokenStore(): TokenStore {
+  let accessToken: string | null = null;
+  let refreshToken: string | null = null;
+  let refreshExpiresAtMs = 0;
+
+  const getRefreshToken = () => (refreshToken && Date.now() < refreshExpiresAtMs ? refreshToken : null);
+  return {
+    kind: 'memory',
+    getAccessToken: () => accessToken,
+    getRefreshToken,
+    hasSession: () => hasUsableTokens(accessToken, getRefreshToken()),
+    setTokens: async (tokens) => {
+      accessToken = tokens.access_token;
+      if (tokens.refresh_token) {
+        refreshToken = tokens.refresh_token;
+        refreshExpiresAtMs = Date.now() + getRefreshLifetimeSeconds(tokens.refresh_expires_in) * 1000;
+      }
+    },
+    clear: async () => {
+      accessToken = null;
+      refreshToken = null;
+      refreshExpiresAtMs = 0;
+    },
+  };
+}
+
+export function createBffTokenStore(bffUrl: string): TokenStore {
+  const sessionUrl = `${bffUrl.replace(/\/$/, '')}/session`;
+  let authenticated: boolean | null = null;
+  return {
+    kind: 'bff',
+    getAccessToken: () => null,
+    getRefreshToken: () => null,
+    hasSession: () => authenticated,
+    setTokens: async (tokens) => {
+      const res = await fetch(sessionUrl, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(tokens),
+      });
+      if (!res.ok) {
+        throw new Error(`Could not start session (${res.status})`);
+      }
+      authenticated = true;
+    },
+    clear: async () => {
+      authenticated = false;
+      try {
+        await fetch(sessionUrl, { method: 'DELETE', credentials: 'include' });
+      } catch (err) {
+        console.warn('[Auth] Could not end BFF session', err);
+      }
+    },
+    fetchSession: async () => {
+      try {
+        const res = await fetch(sessionUrl, { credentials: 'include' });
+        if (res.status === 401) {
+          authenticated = false;
+          return { authenticated: false };
+        }
+        if (!res.ok) return null;
+        const session = (await res.json()) as BffSession;
+        authenticated = Boolean(session.authenticated);
+        return session;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+let cachedStore: { key: string; store: TokenStore } | null = null;
+
+/**
+ * The token store for the current bootstrap config. Stores are kept per mode so in-memory
+ * tokens survive repeated lookups; before bootstrap loads this is the cookie store.
+ */
+export function getTokenStore(): TokenStore {
+  const auth = getBootstrapConfig()?.auth;
+  const kind: TokenStorageKind = auth?.token_storage === 'bff' && auth.bff_url ? 'bff' : auth?.token_storage === 'memory' ? 'memory' : 'cookie';
+  const key = kind === 'bff' ? `bff:${auth?.bff_url}` : kind;
+  if (cachedStore?.key !== key) {
+    const store =
+      kind === 'bff' ? createBffTokenStore(auth?.bff_url ?? '') : kind === 'memory' ? createMemoryTokenStore() : createCookieTokenStore();
+    cachedStore = { key, store };
+  }
+  return cachedStore.store;
+}
+
+/**
+ * Authenticated API request with the active store: the BFF session cookie, or the access token
+ * (with a DPoP proof when the tenant turns DPoP on).
+ */
+export function authFetch(url: string, init: RequestInit = {}, store: TokenStore = getTokenStore()): Promise<Response> {
+  if (store.kind === 'bff') {
+    return fetch(url, { ...init, credentials: 'include' });
+  }
+  return dpopFetch(url, { ...init, credentials: 'omit' }, store.getAccessToken());
+}
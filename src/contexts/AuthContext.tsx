@@ -0,0 +1,301 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useBootstrap } from './BootstrapContext';
+import { subscribeToAuthMessages } from '../auth/authChannel';
+import { fetchCurrentUser, getUserFromClaims } from '../auth/currentUser';
+import { decodeJwt, getDisplayNameFromClaims } from '../auth/jwt';
+import type { JwtClaims } from '../auth/jwt';
+import { logout as logoutEverywhere, subscribeToLogout } from '../auth/logout';
+import { mapProviderClaims } from '../auth/providerAdapters';
+import { switchOrganization as switchSessionOrganization } from '../auth/organizations';
+import { refreshSessionTokens } from '../auth/refreshScheduler';
+import { getCurrentReturnPath, withReturnTo } from '../auth/returnTo';
+import { getStoredUser, getStoredUserFetchedAtMs, getUserDisplayName, setStoredIdToken, setStoredUser } from '../auth/session';
+import type { SessionOrganization, SessionUser } from '../auth/session';
+import { subscribeToSessionRestored } from '../auth/silentAuth';
+import { getTokenStore } from '../auth/tokenStore';
+import type { StoredTokens } from '../auth/tokenStore';
+
+export type AuthStatus = 'loading' | 'authenticated' | 'anonymous';
+
+export type AuthEvent =
+  | { type: 'signed_in'; user: SessionUser }
+  | { type: 'signed_out' }
+  | { type: 'tokens_refreshed' };
+
+/** User fields as AuthN returns them (/me, bootstrap, signup). */
+export type AuthUserDetails = { email?: string | null; display_name?: string; name?: string };
+
+/** What a sign-in flow (password, signup, callback) hands over once it has tokens. */
+export type CompleteSignInInput = {
+  tokens: StoredTokens & { id_token?: string };
+  user?: AuthUserDetails | null;
+  organization?: SessionOrganization | null;
+};
+
+interface AuthContextType {
+  status: AuthStatus;
+  user: SessionUser | null;
+  /** Organization of the current token (falls back to what sign-in reported). */
+  organization: SessionOrganization | null;
+  role: string | null;
+  /** Organizations the user can switch to; empty when AuthN doesn't list them. */
+  organizations: SessionOrganization[];
+  /** Decoded access-token claims (null when signed out or in BFF mode). */
+  claims: JwtClaims | null;
+  /** Go to the sign-in page, coming back to `returnTo` (default: the current page). */
+  login: (options?: { returnTo?: string | null }) => void;
+  logout: () => Promise<void>;
+  /** Force a token refresh now (e.g. to pick up a role change). */
+  refresh: () => Promise<void>;
+  /** Re-read the user from AuthN (or the token, when AuthN is unreachable). */
+  reloadUser: () => Promise<SessionUser | null>;
+  completeSignIn: (input: CompleteSignInInput) => Promise<SessionUser>;
+  /** Replace the signed-in user's details, e.g. with AuthN bootstrap data after sign-in. */
+  updateUser: (details: AuthUserDetails, organization?: SessionOrganization | null) => SessionUser;
+  /** Re-issue the session for another of the user's organizations. Rejects with AuthError. */
+  switchOrganization: (organization: SessionOrganization) => Promise<void>;
+  subscribe: (listener: (event: AuthEvent) => void) => () => void;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// Reuse the cached user for this long before asking AuthN again.
+const USER_CACHE_TTL_MS = 5 * 60 * 1000;
+
+function readClaims(): JwtClaims | null {
+  const token = getTokenStore().getAccessToken();
+  return token ? mapProviderClaims(decodeJwt(token)) : null;
+}
+
+/** Session user from AuthN details, filling gaps from the access-token claims. */
+function buildSessionUser(
+  details: AuthUserDetails | null | undefined,
+  claims: JwtClaims | null,
+  organization: SessionOrganization | null | undefined
+): SessionUser {
+  const fromClaims = getUserFromClaims(claims);
+  const email = details?.email || claims?.email || undefined;
+  const cached = getStoredUser();
+  return {
+    // Names from AuthN win over token claims; the email's local part is the last resort.
+    name: getUserDisplayName({
+      display_name: details?.display_name,
+      name: details?.name || getDisplayNameFromClaims(claims) || undefined,
+      email,
+    }),
+    email,
+    organization: organization ?? fromClaims?.organization ?? null,
+    role: organization?.role ?? fromClaims?.role ?? null,
+    // Memberships come from /me; keep the known list for the same user.
+    organizations: cached?.email === email ? cached?.organizations ?? [] : [],
+  };
+}
+
+function getInitialStatus(): { status: AuthStatus; user: SessionUser | null } {
+  if (getTokenStore().hasSession() === false) return { status: 'anonymous', user: null };
+  const cached = getStoredUser();
+  return cached ? { status: 'authenticated', user: cached } : { status: 'loading', user: null };
+}
+
+/**
+ * Single source of truth for the marketing-site session: the token store (see auth/tokenStore)
+ * plus the per-tab cached user. Follows sign-out and sign-in in other tabs, silent sign-in and
+ * token refreshes, and re-evaluates once bootstrap picks the token store.
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { config, loading: bootstrapLoading } = useBootstrap();
+  const navigate = useNavigate();
+  const [initial] = useState(getInitialStatus);
+  const [status, setStatus] = useState<AuthStatus>(initial.status);
+  const [user, setUser] = useState<SessionUser | null>(initial.user);
+  const [claims, setClaims] = useState<JwtClaims | null>(readClaims);
+  const listenersRef = useRef(new Set<(event: AuthEvent) => void>());
+  const statusRef = useRef(status);
+  statusRef.current = status;
+
+  const emit = useCallback((event: AuthEvent) => {
+    listenersRef.current.forEach((listener) => listener(event));
+  }, []);
+
+  const applyUser = useCallback(
+    (next: SessionUser | null) => {
+      const wasAuthenticated = statusRef.current === 'authenticated';
+      setUser(next);
+      setClaims(readClaims());
+      setStatus(next ? 'authenticated' : 'anonymous');
+      if (next && !wasAuthenticated) emit({ type: 'signed_in', user: next });
+    },
+    [emit]
+  );
+
+  const reloadUser = useCallback(async () => {
+    if (getTokenStore().hasSession() === false) {
+      applyUser(null);
+      return null;
+    }
+    // AuthN unreachable and nothing cached: the token itself still names the user.
+    const next = (await fetchCurrentUser()) ?? getUserFromClaims(readClaims());
+    applyUser(next);
+    return next;
+  }, [applyUser]);
+
+  const signOutLocally = useCallback(() => {
+    setUser(null);
+    setClaims(null);
+    setStatus('anonymous');
+    emit({ type: 'signed_out' });
+  }, [emit]);
+
+  // (Re)load once bootstrap settles, since it decides which token store holds the session.
+  useEffect(() => {
+    if (bootstrapLoading) return;
+    const store = getTokenStore();
+    if (store.hasSession() === false) {
+      applyUser(null);
+      return;
+    }
+    let cancelled = false;
+    const cached = getStoredUser();
+    const fetchedAt = getStoredUserFetchedAtMs();
+    if (cached && typeof fetchedAt === 'number' && Date.now() - fetchedAt < USER_CACHE_TTL_MS) {
+      applyUser(cached);
+      // BFF: the cached user skips the session check, and until one runs the store (and the
+      // idle monitor) can't tell whether there is a session.
+      if (store.hasSession() === null && store.fetchSession) {
+        store.fetchSession().then((session) => {
+          if (!cancelled && session && !session.authenticated) applyUser(null);
+        });
+      }
+      return () => {
+        cancelled = true;
+      };
+    }
+    fetchCurrentUser().then((fetched) => {
+      if (!cancelled) applyUser(fetched ?? getUserFromClaims(readClaims()));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [bootstrapLoading, config, applyUser]);
+
+  useEffect(() => subscribeToLogout(signOutLocally), [signOutLocally]);
+
+  useEffect(() => subscribeToSessionRestored(() => void reloadUser()), [reloadUser]);
+
+  useEffect(
+    () =>
+      subscribeToAuthMessages((message) => {
+        if (message.type !== 'tokens_refreshed') return;
+        if (statusRef.current === 'authenticated') {
+          setClaims(readClaims());
+          emit({ type: 'tokens_refreshed' });
+        } else {
+          // Signed in from another tab.
+          void reloadUser();
+        }
+      }),
+    [emit, reloadUser]
+  );
+
+  const completeSignIn = useCallback(
+    async ({ tokens, user: signedInUser, organization }: CompleteSignInInput) => {
+      await getTokenStore().setTokens(tokens);
+      if (tokens.id_token) {
+        setStoredIdToken(tokens.id_token);
+      }
+      const next = buildSessionUser(signedInUser, mapProviderClaims(decodeJwt(tokens.access_token)), organization);
+      setStoredUser(next, { fetched: Boolean(signedInUser) });
+      applyUser(next);
+      return next;
+    },
+    [applyUser]
+  );
+
+  const updateUser = useCallback(
+    (details: AuthUserDetails, organization?: SessionOrganization | null) => {
+      const next = buildSessionUser(details, readClaims(), organization);
+      setStoredUser(next, { fetched: true });
+      applyUser(next);
+      return next;
+    },
+    [applyUser]
+  );
+
+  const switchOrganization = useCallback(
+    async (organization: SessionOrganization) => {
+      if (!organization.guid) return;
+      await switchSessionOrganization(organization.guid);
+      const current = getStoredUser();
+      const fromClaims = getUserFromClaims(readClaims());
+      if (current) {
+        const next: SessionUser = {
+          ...current,
+          organization: fromClaims?.organization ?? organization,
+          role: fromClaims?.role ?? organization.role ?? null,
+        };
+        setStoredUser(next);
+        applyUser(next);
+      } else {
+        setClaims(readClaims());
+      }
+      emit({ type: 'tokens_refreshed' });
+    },
+    [applyUser, emit]
+  );
+
+  const refresh = useCallback(async () => {
+    await refreshSessionTokens();
+    setClaims(readClaims());
+    emit({ type: 'tokens_refreshed' });
+  }, [emit]);
+
+  const login = useCallback(
+    ({ returnTo }: { returnTo?: string | null } = {}) => {
+      navigate(withReturnTo('/login', returnTo === undefined ? getCurrentReturnPath() : returnTo));
+    },
+    [navigate]
+  );
+
+  const logout = useCallback(async () => {
+    await logoutEverywhere();
+  }, []);
+
+  const subscribe = useCallback((listener: (event: AuthEvent) => void) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const value = useMemo<AuthContextType>(() => {
+    // The token is authoritative once it names an organization (it changes on switch/refresh).
+    const fromClaims = getUserFromClaims(claims);
+    return {
+      status,
+      user,
+      organization: fromClaims?.organization ?? user?.organization ?? null,
+      role: fromClaims?.role ?? user?.role ?? null,
+      organizations: user?.organizations ?? [],
+      claims,
+      login,
+      logout,
+      refresh,
+      reloadUser,
+      completeSignIn,
+      updateUser,
+      switchOrganization,
+      subscribe,
+    };
+  }, [status, user, claims, login, logout, refresh, reloadUser, completeSignIn, updateUser, switchOrganization, subscribe]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within AuthProvider');
+  }
+  return context;
+};
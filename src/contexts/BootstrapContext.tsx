@@ -28,10 +28,24 @@ export type BootstrapConfig = {
     authz_url: string;
     idp_url: string;
     region: string;
+    account_url?: string;  // self-service account settings (profile, password, MFA)
   };
   auth: {
     sso_config_url: string;
     auth_config_url: string;
+    token_storage?: 'cookie' | 'memory' | 'bff';  // where the SPA keeps tokens (default cookie)
+    bff_url?: string;  // backend-for-frontend base URL when token_storage is 'bff'
+    cookie_domain?: string;  // token cookie domain for custom domains (default: registrable domain)
+    public_suffixes?: string[];  // extra public suffixes, e.g. a platform domain tenants get subdomains of
+    cookie_policy?: {
+      same_site?: 'lax' | 'strict' | 'none';  // token cookies' SameSite (default lax)
+      partitioned?: boolean;  // CHIPS Partitioned cookies for embedded use (implies SameSite=None)
+      persistence?: 'persistent' | 'session' | 'remember_me';  // remember_me: user chooses at sign-in
+      refresh_lifetime_seconds?: number;  // when the token response has no refresh_expires_in
+    };
+    dpop?: boolean;  // DPoP sender-constrained tokens (RFC 9449); ignored with token_storage 'bff'
+    passkeys?: boolean;  // passkey (WebAuthn) sign-in and registration through AuthN
+    magic_link?: boolean;  // passwordless sign-in with an emailed one-time link
   };
   // OAuth/OIDC Provider Configuration
   auth_provider?: {
@@ -45,10 +59,12 @@ export type BootstrapConfig = {
     client_id: string;
     redirect_uri: string;
     oauth_callback_url?: string;  // AuthN central callback URL (when using social/central flow)
+    silent_redirect_uri?: string;  // prompt=none callback (default: <origin>/silent-callback.html)
     social_providers?: string[];  // e.g. ['google', 'github'] when SSO config has credentials
-    scope: string;
-    response_type: string;
-    flow: string;
+    scope: string;  // space-separated; empty uses the provider adapter's default
+    response_type: string;  // only 'code' can be finished by the SPA
+    flow: string;  // 'pkce' (default) | 'authorization_code'; both run the code flow with PKCE
+    audience?: string;  // Auth0 API identifier (JWT access tokens)
     sso_required: boolean;
     sso_button_text: string | null;
     allow_social_login: boolean;
@@ -56,6 +72,11 @@ export type BootstrapConfig = {
     workos_connection_id?: string;  // WorkOS specific
     workos_organization_id?: string;  // WorkOS specific
   };
+  // Tenant session policy
+  session?: {
+    idle_timeout_seconds?: number | null;  // sign out after this much inactivity; unset/0 = never
+    idle_warning_seconds?: number | null;  // how long before the idle sign-out to warn (default 120)
+  };
 };
 
 interface BootstrapContextType {
@@ -106,6 +127,9 @@ export const BootstrapProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       }
 
       const data = await response.json();
+      // Before setConfig: child effects that react to `config` run before ours below and may
+      // call getBootstrapConfig() (token store selection, id_token validation).
+      cachedBootstrapConfig = data;
       setConfig(data);
       
       console.log('[Bootstrap] Config loaded successfully:', {
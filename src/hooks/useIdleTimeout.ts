@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useBootstrap } from '../contexts/BootstrapContext';
+import { getIdleSettings, startIdleMonitor } from '../auth/idleTimeout';
+import type { IdleMonitor, IdleState } from '../auth/idleTimeout';
+import { TokenRefreshError } from '../auth/oidc';
+import { refreshSessionTokens } from '../auth/refreshScheduler';
+import { endLocalSession, logout } from '../auth/logout';
+import { getCurrentReturnPath, withReturnTo } from '../auth/returnTo';
+
+export type UseIdleTimeoutResult = {
+  warningVisible: boolean;
+  secondsRemaining: number;
+  extending: boolean;
+  error: string | null;
+  staySignedIn: () => Promise<void>;
+  signOut: () => void;
+};
+
+async function signOutForInactivity(): Promise<void> {
+  await endLocalSession();
+  window.location.assign(withReturnTo('/login', getCurrentReturnPath()));
+}
+
+/**
+ * Idle sign-out using the tenant's bootstrap `session.idle_timeout_seconds`; see auth/idleTimeout.
+ * "Stay signed in" forces a token refresh so the session is provably still alive.
+ */
+export function useIdleTimeout(): UseIdleTimeoutResult {
+  const { config } = useBootstrap();
+  const [state, setState] = useState<IdleState>({ phase: 'active' });
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  const [extending, setExtending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const monitorRef = useRef<IdleMonitor | null>(null);
+
+  const settings = getIdleSettings(config);
+  const idleTimeoutMs = settings?.idleTimeoutMs ?? 0;
+  const warningMs = settings?.warningMs ?? 0;
+
+  useEffect(() => {
+    if (!idleTimeoutMs) return undefined;
+    const monitor = startIdleMonitor(
+      { idleTimeoutMs, warningMs },
+      {
+        onChange: (next) => {
+          setState(next);
+          setError(null);
+        },
+        onTimeout: () => {
+          console.warn('[Auth] Idle limit reached; signing out');
+          void signOutForInactivity();
+        },
+      }
+    );
+    monitorRef.current = monitor;
+    return () => {
+      monitor.stop();
+      monitorRef.current = null;
+      setState({ phase: 'active' });
+    };
+  }, [idleTimeoutMs, warningMs]);
+
+  // Countdown while the warning is showing.
+  useEffect(() => {
+    if (state.phase !== 'warning') return undefined;
+    setNowMs(Date.now());
+    const interval = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.phase]);
+
+  const staySignedIn = useCallback(async () => {
+    setExtending(true);
+    setError(null);
+    // Counts as activity first so other tabs dismiss their warning right away.
+    monitorRef.current?.extend();
+    try {
+      await refreshSessionTokens();
+    } catch (err) {
+      if (err instanceof TokenRefreshError && err.isInvalidGrant) {
+        await signOutForInactivity();
+        return;
+      }
+      console.warn('[Auth] Could not extend session', err);
+      setError('We could not reach the sign-in service. Your session will keep retrying in the background.');
+    } finally {
+      setExtending(false);
+    }
+  }, []);
+
+  const secondsRemaining =
+    state.phase === 'warning' ? Math.max(0, Math.ceil((state.signOutAtMs - nowMs) / 1000)) : 0;
+
+  return {
+    warningVisible: state.phase === 'warning',
+    secondsRemaining,
+    extending,
+    error,
+    staySignedIn,
+    signOut: logout,
+  };
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useBootstrap } from '../contexts/BootstrapContext';
+import type { CredentialsLoginResponse } from '../auth/oidc';
+import { isPasskeyAutofillAvailable, isPasskeyEnabled, signInWithPasskey } from '../auth/passkeys';
+
+export type UsePasskeySignInResult = {
+  /** Passkeys are on for the tenant and the browser supports them (show the button). */
+  enabled: boolean;
+  /** Passkeys are offered in the email field's autofill (add `webauthn` to its autocomplete). */
+  autofill: boolean;
+  pending: boolean;
+  error: string | null;
+  signIn: (email?: string) => Promise<void>;
+};
+
+/**
+ * Passkey sign-in for a login form (see auth/passkeys). While `active`, a conditional request
+ * waits for the user to pick a passkey from autofill; signIn() cancels it for the dialog flow
+ * and starts it again afterwards. Browsers without WebAuthn get `enabled: false` and the
+ * form stays as it is.
+ */
+export function usePasskeySignIn(
+  onSignedIn: (result: CredentialsLoginResponse) => Promise<void>,
+  active = true
+): UsePasskeySignInResult {
+  const { config } = useBootstrap();
+  const enabled = isPasskeyEnabled(config);
+  const [autofill, setAutofill] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped after a dialog sign-in to start a fresh autofill request.
+  const [round, setRound] = useState(0);
+  const autofillRef = useRef<AbortController | null>(null);
+  const onSignedInRef = useRef(onSignedIn);
+  onSignedInRef.current = onSignedIn;
+
+  useEffect(() => {
+    if (!enabled || !active) return;
+    const controller = new AbortController();
+    autofillRef.current = controller;
+    isPasskeyAutofillAvailable().then(async (available) => {
+      if (!available || controller.signal.aborted) return;
+      setAutofill(true);
+      try {
+        const result = await signInWithPasskey({ conditional: true, signal: controller.signal });
+        if (result && !controller.signal.aborted) await onSignedInRef.current(result);
+      } catch (err) {
+        // Quiet: the user didn't ask for anything yet; the dialog flow reports errors.
+        console.warn('[Auth] Passkey autofill unavailable', err);
+      }
+    });
+    return () => {
+      controller.abort();
+      setAutofill(false);
+    };
+  }, [enabled, active, round]);
+
+  const signIn = useCallback(async (email?: string) => {
+    // Only one WebAuthn request may be pending at a time.
+    autofillRef.current?.abort();
+    setError(null);
+    setPending(true);
+    try {
+      const result = await signInWithPasskey({ email });
+      if (result) await onSignedInRef.current(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Passkey sign-in failed. Try again.');
+    } finally {
+      setPending(false);
+      setRound((n) => n + 1);
+    }
+  }, []);
+
+  return { enabled, autofill, pending, error, signIn };
+}
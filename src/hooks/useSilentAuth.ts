@@ -0,0 +1,15 @@
+import { useEffect } from 'react';
+import { useBootstrap } from '../contexts/BootstrapContext';
+import { restoreSessionSilently } from '../auth/silentAuth';
+
+/**
+ * Once bootstrap is loaded, restore a missing session from the IdP with prompt=none
+ * (see auth/silentAuth). Pages pick the new session up via subscribeToSessionRestored.
+ */
+export function useSilentAuth() {
+  const { config } = useBootstrap();
+  useEffect(() => {
+    if (!config) return;
+    void restoreSessionSilently();
+  }, [config]);
+}
@@ -0,0 +1,11 @@
+// jest-dom adds custom jest matchers for asserting on DOM nodes.
+// allows you to do things like:
+// expect(element).toHaveTextContent(/react/i)
+// learn more: https://github.com/testing-library/jest-dom
+import '@testing-library/jest-dom';
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom has neither; the auth helpers use both (base64url, WebCrypto signatures).
+Object.assign(global, { TextEncoder, TextDecoder });
+Object.defineProperty(window, 'crypto', { value: webcrypto });